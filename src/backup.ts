@@ -0,0 +1,152 @@
+'use strict';
+// Modules from Node.js
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Modules from this extension
+import { copyPath, ensureDir, removePath } from './remoteSource';
+
+const SNAPSHOT_FILENAME = 'snapshot.json';
+
+export interface BackupFile {
+    path: string;
+    existed: boolean;
+}
+
+// State of the local environment before a fetch changed it
+export interface Snapshot {
+    id: string;
+    // ISO date and time the snapshot was taken
+    created: string;
+    // What was about to change, e.g. "Fetch settings"
+    description: string;
+    // User files that were about to change, a copy of each existing one is kept with the snapshot
+    files: BackupFile[];
+    // Extension folders the fetch added
+    extensionFolders: string[];
+    // Extension folders the fetch removed, e.g. newer versions replaced by a pinned version, a copy of each is kept
+    replacedFolders?: string[];
+}
+
+// Timestamped snapshots of the local environment, oldest are discarded beyond the retention limit
+export class BackupStore {
+    constructor(private _storePath: string, private _retention: number) {
+    }
+
+    public list(): Snapshot[] {
+        if (!fs.existsSync(this._storePath)) {
+            return [];
+        }
+
+        var snapshots: Snapshot[] = [];
+
+        for (let id of fs.readdirSync(this._storePath)) {
+            let snapshotFile = path.join(this._storePath, id, SNAPSHOT_FILENAME);
+            if (!fs.existsSync(snapshotFile)) {
+                continue;
+            }
+            try {
+                snapshots.push(JSON.parse(fs.readFileSync(snapshotFile, 'UTF-8')));
+            }
+            catch (err) {
+                // Damaged snapshot, can't be restored anyway
+                console.error(err);
+            }
+        }
+
+        // Newest first
+        return snapshots.sort((a, b) => (a.id < b.id) ? 1 : (a.id > b.id) ? -1 : 0);
+    }
+
+    public async create(description: string, files: string[], extensionFolders: string[], replacedFolders: string[] = []) {
+        // Sortable and safe as a filename
+        var id = new Date().toISOString().replace(/[:.]/g, '-');
+        var suffix = 0;
+        while (fs.existsSync(path.join(this._storePath, id + (suffix ? '-' + suffix : '')))) {
+            suffix++;
+        }
+        id += suffix ? '-' + suffix : '';
+
+        var snapshotPath = path.join(this._storePath, id);
+        await ensureDir(snapshotPath);
+
+        var snapshot: Snapshot = {
+            id: id,
+            created: new Date().toISOString(),
+            description: description,
+            files: files.map(file => ({path: file, existed: fs.existsSync(file)})),
+            extensionFolders: extensionFolders,
+            replacedFolders: replacedFolders
+        };
+
+        // Copies are numbered, different folders may hold files with the same name
+        snapshot.files.forEach((file, index) => {
+            if (file.existed) {
+                fs.writeFileSync(path.join(snapshotPath, 'file-' + index), fs.readFileSync(file.path));
+            }
+        });
+        for (let index = 0; index < replacedFolders.length; index++) {
+            await copyPath(replacedFolders[index], path.join(snapshotPath, 'folder-' + index));
+        }
+        fs.writeFileSync(path.join(snapshotPath, SNAPSHOT_FILENAME), JSON.stringify(snapshot, null, 2), {encoding: 'UTF-8'});
+
+        await this.prune();
+
+        return snapshot;
+    }
+
+    // Return to the state before the snapshot was taken, undoing every later snapshot too
+    public async restore(snapshot: Snapshot) {
+        var undone = this.list().filter(item => item.id >= snapshot.id);
+
+        for (let item of undone) {
+            for (let folder of item.extensionFolders) {
+                await removePath(folder);
+            }
+        }
+
+        // Replaced extension folders come back once the folders added in their place are gone
+        for (let item of undone.slice().reverse()) {
+            let folders = item.replacedFolders || [];
+            for (let index = 0; index < folders.length; index++) {
+                if (!fs.existsSync(folders[index])) {
+                    await copyPath(path.join(this._storePath, item.id, 'folder-' + index), folders[index]);
+                }
+            }
+        }
+
+        // Files changed by later snapshots only are restored by the oldest snapshot that has them
+        var restored: string[] = [];
+        for (let item of undone.slice().reverse()) {
+            let files = item.files;
+            for (let index = 0; index < files.length; index++) {
+                let file = files[index];
+                if (restored.indexOf(file.path) >= 0) {
+                    continue;
+                }
+                restored.push(file.path);
+
+                if (file.existed) {
+                    await ensureDir(path.dirname(file.path));
+                    fs.writeFileSync(file.path, fs.readFileSync(path.join(this._storePath, item.id, 'file-' + index)));
+                }
+                else if (fs.existsSync(file.path)) {
+                    fs.unlinkSync(file.path);
+                }
+            }
+        }
+
+        // The restored state is the current state again
+        for (let item of undone) {
+            await removePath(path.join(this._storePath, item.id));
+        }
+
+        return undone;
+    }
+
+    private async prune() {
+        for (let item of this.list().slice(Math.max(this._retention, 0))) {
+            await removePath(path.join(this._storePath, item.id));
+        }
+    }
+}
@@ -0,0 +1,330 @@
+#!/usr/bin/env node
+'use strict';
+// Provisions the environment without the editor, e.g. on build agents and new virtual machines.
+// The engine is the same as the extension's, configured by the fetchUserEnv settings in the local settings.json.
+
+// Modules from Node.js
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Modules from this extension
+import { RemoteSource, createRemoteSource } from './remoteSource';
+import { productInfo, resolveLocalPaths } from './localPaths';
+import { MANIFEST_FILENAME } from './manifest';
+import { complianceStatus, reportToJSON } from './report';
+import { isExcludedSetting, isExcludedExtension } from './publish';
+import { JSONError, EnvironmentEngine, scanExtensions } from './engine';
+
+export const COMMANDS = ['fetch-settings', 'fetch-extensions', 'save', 'check'];
+
+// Snapshots are kept in the extension's storage by default, so they can be restored from the editor too
+const EXTENSION_ID = 'michaelnewton.fetch-user-environment';
+
+// Exit codes, so scripts can tell a drifted environment from one that couldn't be checked
+export const EXIT_OK = 0;
+export const EXIT_DRIFTED = 1;
+export const EXIT_FAILED = 2;
+export const EXIT_USAGE = 64;
+
+const USAGE = `Usage: fetch-user-env <command> [options]
+
+Commands:
+  fetch-settings             Apply the remote settings, and keybindings, snippets and tasks if enabled
+  fetch-extensions           Install missing and newer extensions, and remove blocked extensions
+  save                       Save the local environment to empty remote locations
+  check                      Compare the local environment with the remote locations, nothing is changed
+
+Options:
+  --remote-settings <path>   Remote settings path, "fetchUserEnv.remoteSettingsPath" by default
+  --remote-extensions <path> Remote extensions path, "fetchUserEnv.remoteExtensionPath" by default
+  --default-settings <file>  Default settings filename, "fetchUserEnv.remoteDefaultSettingsFilename" by default
+  --user-data-dir <dir>      User data folder of the editor, as given to the editor
+  --extensions-dir <dir>     Extensions folder of the editor, as given to the editor
+  --product <name>           Product to provision, e.g. "Code - Insiders" or "VSCodium", "Code" by default
+  --backup-dir <dir>         Folder of the environment backups, those of the extension by default
+  --dry-run                  List the changes to settings and extensions without applying them
+`;
+
+export interface CliOptions {
+    command: string;
+    remoteSettingsPath?: string;
+    remoteExtensionPath?: string;
+    remoteDefaultSettingsFilename?: string;
+    extensionsDir?: string;
+    product?: string;
+    backupDir?: string;
+    dryRun: boolean;
+    // All arguments, the local paths are located as for the editor, e.g. with --user-data-dir
+    argv: string[];
+}
+
+// Throws an Error describing the first invalid argument
+export function parseArgs(argv: string[]): CliOptions {
+    var options: CliOptions = {command: argv[0], dryRun: false, argv: argv};
+
+    if (COMMANDS.indexOf(options.command) < 0) {
+        throw new Error(options.command ? 'Unknown command "' + options.command + '"' : 'No command given');
+    }
+
+    for (let index = 1; index < argv.length; index++) {
+        // Values are given as "--name value" or "--name=value"
+        let separator = argv[index].indexOf('=');
+        let name = (separator < 0) ? argv[index] : argv[index].substr(0, separator);
+        let value = () => {
+            if (separator >= 0) {
+                return argv[index].substr(separator + 1);
+            }
+            if (index + 1 >= argv.length) {
+                throw new Error('Missing value of option "' + name + '"');
+            }
+            return argv[++index];
+        };
+
+        switch (name) {
+            case '--remote-settings':
+                options.remoteSettingsPath = value();
+                break;
+            case '--remote-extensions':
+                options.remoteExtensionPath = value();
+                break;
+            case '--default-settings':
+                options.remoteDefaultSettingsFilename = value();
+                break;
+            case '--extensions-dir':
+                options.extensionsDir = value();
+                break;
+            case '--user-data-dir':
+                // Read from the arguments when the local paths are located
+                value();
+                break;
+            case '--product':
+                options.product = value();
+                break;
+            case '--backup-dir':
+                options.backupDir = value();
+                break;
+            case '--dry-run':
+                options.dryRun = true;
+                break;
+            default:
+                throw new Error('Unknown option "' + argv[index] + '"');
+        }
+    }
+
+    return options;
+}
+
+class CliEnvironment extends EnvironmentEngine {
+    private _settings = {};
+    private _dryRun: boolean;
+
+    constructor(options: CliOptions) {
+        super();
+
+        var localPaths = resolveLocalPaths({
+            platform: os.platform(),
+            homeDir: os.homedir(),
+            env: process.env,
+            argv: options.argv,
+            product: productInfo(options.product || 'Code', null)
+        });
+        this._localSettingsPath = localPaths.settingsPath;
+
+        // The same configuration as the extension
+        var settingsFile = path.join(this._localSettingsPath, 'settings.json');
+        if (fs.existsSync(settingsFile)) {
+            let settings = this.readSettingsFile(settingsFile, false);
+            for (let key in settings) {
+                if (key.startsWith('fetchUserEnv.')) {
+                    this._settings[key.substr('fetchUserEnv.'.length)] = settings[key];
+                }
+            }
+        }
+
+        // The options win over the configuration
+        this._localExtensionPath = options.extensionsDir ? path.resolve(options.extensionsDir)
+                                 : this.config<string>('localExtensionPath') || localPaths.extensionPath;
+        this._remoteSettingsPath = options.remoteSettingsPath || this.config<string>('remoteSettingsPath');
+        this._remoteExtensionPath = options.remoteExtensionPath || this.config<string>('remoteExtensionPath');
+        this._remoteDefaultSettingsFilename = options.remoteDefaultSettingsFilename || this.config<string>('remoteDefaultSettingsFilename');
+        // Clones are kept with the extension's storage, as the editor does
+        this._gitCachePath = path.join(this._localSettingsPath, 'globalStorage', EXTENSION_ID, 'git');
+        this._remoteSettingsSource = this._remoteSettingsPath ? createRemoteSource(this._remoteSettingsPath, this._gitCachePath) : null;
+        this._remoteExtensionSource = this._remoteExtensionPath ? createRemoteSource(this._remoteExtensionPath, this._gitCachePath) : null;
+        this._backupPath = options.backupDir ? path.resolve(options.backupDir)
+                         : path.join(this._localSettingsPath, 'globalStorage', EXTENSION_ID, 'backups');
+        this._dryRun = options.dryRun;
+
+        this.log('Local settings path "' + this._localSettingsPath + '", local extensions path "' + this._localExtensionPath + '"');
+    }
+
+    protected config<T>(key: string): T {
+        return this._settings[key];
+    }
+
+    protected installedExtensions() {
+        return scanExtensions(this._localExtensionPath);
+    }
+
+    protected log(message: string, isError: boolean = false) {
+        // The output is kept for the results
+        process.stderr.write((isError ? 'Error: ' : '') + message + os.EOL);
+    }
+
+    protected warn(message: string) {
+        process.stderr.write('Warning: ' + message + os.EOL);
+    }
+
+    private requireSource(source: RemoteSource, setting: string) {
+        if (!source) {
+            throw new Error('No remote path configured, set "fetchUserEnv.' + setting + '" or use the options');
+        }
+        return source;
+    }
+
+    public async fetchSettings() {
+        this.requireSource(this._remoteSettingsSource, 'remoteSettingsPath');
+
+        if (!await this.remoteSettingsFound()) {
+            throw new Error('Neither "' + MANIFEST_FILENAME + '" nor "settings.json" exist in specified remote settings path "' + this._remoteSettingsPath + '"');
+        }
+
+        await this.loadSettingsSources();
+        var fetch = await this.fetchSettingChanges(false, this._dryRun);
+
+        return {command: 'fetch-settings',
+                applied: !this._dryRun,
+                settings: fetch.settings,
+                files: fetch.files.map(change => ({kind: change.kind, file: change.file, label: change.label}))};
+    }
+
+    public async fetchExtensions() {
+        this.requireSource(this._remoteExtensionSource, 'remoteExtensionPath');
+
+        if (!await this.remoteExtensionsFound()) {
+            throw new Error('Specified remote extension path "' + this._remoteExtensionPath + '" does not exist');
+        }
+
+        await this.loadExtensionSources();
+        var fetch = await this.fetchExtensionChanges(false, this._dryRun);
+        var results = fetch.results;
+
+        return {command: 'fetch-extensions',
+                applied: !this._dryRun,
+                extensions: fetch.changes.map((change, index) => ({kind: change.kind,
+                                                                   id: change.id,
+                                                                   version: change.version,
+                                                                   status: results[index] ? results[index].status : 'pending',
+                                                                   error: (results[index] && results[index].error) ? String(results[index].error.message || results[index].error) : undefined})),
+                refused: fetch.refused,
+                unmet: fetch.unmet,
+                skipped: fetch.skipped.map(change => ({id: change.id, version: change.version})),
+                unsatisfied: fetch.unsatisfied,
+                cycles: fetch.cycles};
+    }
+
+    public async save() {
+        var settingsSource = this.requireSource(this._remoteSettingsSource, 'remoteSettingsPath');
+        var extensionSource = this.requireSource(this._remoteExtensionSource, 'remoteExtensionPath');
+
+        if (!settingsSource.writable || !extensionSource.writable) {
+            throw new Error('Cannot save environment, remote locations must be file system paths.');
+        }
+
+        // Create the paths if they do not yet exist
+        await settingsSource.ensure();
+        await extensionSource.ensure();
+
+        if (!await this.remotesEmpty()) {
+            throw new Error('Cannot save environment, remote paths are not empty.');
+        }
+
+        // Without a prompt to untick them, the excluded settings and extensions are left out
+        var excludes = this.publishExcludes();
+        var localSettings = this.readSettingsFile(path.join(this._localSettingsPath, 'settings.json'));
+        var settings = {};
+        for (let key in localSettings) {
+            if (!isExcludedSetting(key, excludes.settings)) {
+                settings[key] = localSettings[key];
+            }
+        }
+        var extensions = this.userExtensions().filter(ext => !isExcludedExtension(ext.id, excludes.extensions));
+
+        await this.writeEnvironment(settings, extensions, ext => this.log('Saved extension "' + ext.id + '" version ' + ext.version));
+
+        return {command: 'save',
+                settings: Object.keys(settings),
+                extensions: extensions.map(ext => ({id: ext.id, version: ext.version})),
+                excluded: Object.keys(localSettings).filter(key => !settings.hasOwnProperty(key))};
+    }
+
+    public async check() {
+        var report = await this.buildReport();
+        if (!report) {
+            throw new Error('No remote paths configured, there is nothing to compare with');
+        }
+        return report;
+    }
+}
+
+function writeResult(result: {}) {
+    process.stdout.write(JSON.stringify(result, null, 2) + os.EOL);
+}
+
+// Results are written to stdout as JSON, messages to stderr
+export async function main(argv: string[]) {
+    if ((argv.length === 0) || (argv[0] === '--help') || (argv[0] === '-h')) {
+        process.stdout.write(USAGE);
+        return (argv.length === 0) ? EXIT_USAGE : EXIT_OK;
+    }
+
+    var options: CliOptions;
+    try {
+        options = parseArgs(argv);
+    }
+    catch (err) {
+        process.stderr.write(err.message + os.EOL + os.EOL + USAGE);
+        return EXIT_USAGE;
+    }
+
+    try {
+        let environment = new CliEnvironment(options);
+
+        switch (options.command) {
+            case 'check': {
+                let report = await environment.check();
+                process.stdout.write(reportToJSON(report) + os.EOL);
+                let status = complianceStatus(report);
+                return (status === 'compliant') ? EXIT_OK : (status === 'drifted') ? EXIT_DRIFTED : EXIT_FAILED;
+            }
+            case 'fetch-settings':
+                writeResult(await environment.fetchSettings());
+                return EXIT_OK;
+            case 'fetch-extensions': {
+                let result = await environment.fetchExtensions();
+                writeResult(result);
+                // Required extensions that couldn't be installed, and extensions missing a dependency, fail as they would once installed
+                let failed = result.extensions.some(ext => ext.status === 'failed') || (result.unmet.length > 0)
+                             || (result.unsatisfied.length > 0) || (result.cycles.length > 0);
+                return failed ? EXIT_FAILED : EXIT_OK;
+            }
+            default:
+                writeResult(await environment.save());
+                return EXIT_OK;
+        }
+    }
+    catch (err) {
+        let message = (err instanceof JSONError) ? 'Error detected in configuration file: "' + err.filename + '", ' + err.message
+                                                 : (err.message || String(err));
+        process.stderr.write('Error: ' + message + os.EOL);
+        writeResult({command: options.command, error: message});
+        return EXIT_FAILED;
+    }
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
@@ -0,0 +1,102 @@
+'use strict';
+// Modules from Node.js
+import * as os from 'os';
+
+// Modules from this extension
+import { matchKey } from './mergeStrategy';
+
+// Remote settings files may list blocks of settings that only apply to some machines or users, e.g.
+// "fetchUserEnv.conditionalSettings": [{"when": {"platform": "win32"}, "settings": {...}}]
+export const CONDITIONAL_SETTINGS_KEY = 'fetchUserEnv.conditionalSettings';
+
+// Machine and user the settings are resolved for
+export interface HostInfo {
+    platform: string;
+    hostname: string;
+    // Null when the user can't be looked up, e.g. without a passwd entry in a container
+    username: string;
+    env: {[name: string]: string};
+}
+
+export function currentHost(): HostInfo {
+    var username: string = null;
+    try {
+        username = os.userInfo().username;
+    }
+    catch (err) {
+        // Username conditions don't match
+    }
+
+    return {
+        platform: os.platform(),
+        hostname: os.hostname(),
+        username: username,
+        env: process.env
+    };
+}
+
+// A condition may list several values, any of them matches
+function anyOf(condition, name: string, matches: (value: string) => boolean) {
+    let values = Array.isArray(condition) ? condition : [condition];
+    if ((values.length === 0) || values.some(value => (typeof value !== 'string') || !value)) {
+        throw new Error('Condition "' + name + '" must be a string or a list of strings');
+    }
+    return values.some(matches);
+}
+
+// All conditions of a block must match
+function matchesHost(when: {}, host: HostInfo) {
+    if (!when || (typeof when !== 'object') || Array.isArray(when)) {
+        throw new Error('"when" must be an object');
+    }
+
+    let matched = true;
+    for (let name in when) {
+        switch (name) {
+            case 'platform':
+                matched = anyOf(when[name], name, value => value === host.platform) && matched;
+                break;
+            case 'hostname':
+                matched = anyOf(when[name], name, value => matchKey(value, host.hostname, true)) && matched;
+                break;
+            case 'username':
+                matched = anyOf(when[name], name, value => !!host.username && (value.toLowerCase() === host.username.toLowerCase())) && matched;
+                break;
+            case 'env':
+                matched = anyOf(when[name], name, value => host.env.hasOwnProperty(value)) && matched;
+                break;
+            default:
+                throw new Error('Unknown condition "' + name + '", expected "platform", "hostname", "username" or "env"');
+        }
+    }
+    return matched;
+}
+
+// Apply the blocks matching the host on top of the unconditional settings, later blocks take precedence.
+// Every block is validated, including those that don't match.  Throws an Error describing the first problem found.
+// The current host is only looked up when there are conditional settings.
+export function resolveConditionalSettings(settings: {}, host?: HostInfo) {
+    if (!settings.hasOwnProperty(CONDITIONAL_SETTINGS_KEY)) {
+        return settings;
+    }
+    host = host || currentHost();
+
+    let blocks = settings[CONDITIONAL_SETTINGS_KEY];
+    if (!Array.isArray(blocks)) {
+        throw new Error('"' + CONDITIONAL_SETTINGS_KEY + '" must be a list');
+    }
+
+    let resolved = Object.assign({}, settings);
+    delete resolved[CONDITIONAL_SETTINGS_KEY];
+
+    for (let block of blocks) {
+        if (!block || (typeof block !== 'object') || !block['settings'] || (typeof block['settings'] !== 'object') || Array.isArray(block['settings'])) {
+            throw new Error('Conditional settings must have "when" conditions and "settings"');
+        }
+        if (matchesHost(block['when'], host)) {
+            Object.assign(resolved, block['settings']);
+        }
+    }
+
+    return resolved;
+}
@@ -0,0 +1,128 @@
+'use strict';
+// Modules from this extension
+import { compareVersions } from './versions';
+
+export interface DependencyNode {
+    id: string;
+    version: string;
+    // IDs of the extensions this one depends on or bundles
+    dependencies: string[];
+}
+
+// Dependency that is neither installed nor available
+export interface UnsatisfiedDependency {
+    // Extension declaring the dependency
+    id: string;
+    dependency: string;
+}
+
+export interface DependencyPlan<T extends DependencyNode> {
+    // Extensions to install, every extension after its dependencies
+    order: T[];
+    // Extensions in the order that were only added as dependencies
+    added: T[];
+    // Extensions left out as they depend, directly or not, on an unsatisfied dependency
+    skipped: T[];
+    unsatisfied: UnsatisfiedDependency[];
+    // Each cycle as the chain of IDs, starting and ending with the same ID
+    cycles: string[][];
+}
+
+// Extensions of Visual Studio Code itself, always present
+export function isBuiltinExtension(id: string) {
+    return id.toLowerCase().startsWith('vscode.');
+}
+
+// Both extensionDependencies and extensionPack must be installed for the extension to work as intended
+export function declaredDependencies(packageJSON: {}): string[] {
+    var ids: string[] = [];
+    for (let field of ['extensionDependencies', 'extensionPack']) {
+        let declared = Array.isArray(packageJSON[field]) ? packageJSON[field] : [];
+        for (let id of declared) {
+            if ((typeof id === 'string') && id && !ids.some(found => found.toLowerCase() === id.toLowerCase())) {
+                ids.push(id);
+            }
+        }
+    }
+    return ids;
+}
+
+// Add the dependencies of the requested extensions that aren't installed, using the newest available version, and order
+// everything so dependencies come first.  Extension IDs are case insensitive.  A cycle is reported and broken where it
+// closes, the extensions in it are still installed.  Extensions that would fail to activate for lack of a dependency are skipped.
+export function resolveDependencies<T extends DependencyNode>(requested: T[], available: T[], isInstalled: (id: string) => boolean): DependencyPlan<T> {
+    var plan: DependencyPlan<T> = {order: [], added: [], skipped: [], unsatisfied: [], cycles: []};
+    var nodes: {[id: string]: T} = {};
+    var state: {[id: string]: 'visiting' | 'done'} = {};
+    var chain: string[] = [];
+
+    for (let node of requested) {
+        nodes[node.id.toLowerCase()] = node;
+    }
+
+    function findNode(id: string) {
+        let key = id.toLowerCase();
+        if (!nodes[key] && !isInstalled(id)) {
+            for (let candidate of available) {
+                if ((candidate.id.toLowerCase() === key) && (!nodes[key] || (compareVersions(candidate.version, nodes[key].version) > 0))) {
+                    nodes[key] = candidate;
+                }
+            }
+            if (nodes[key]) {
+                plan.added.push(nodes[key]);
+            }
+        }
+        return nodes[key];
+    }
+
+    function visit(node: T) {
+        let key = node.id.toLowerCase();
+        if (state[key] === 'done') {
+            return;
+        }
+        if (state[key] === 'visiting') {
+            plan.cycles.push(chain.slice(chain.indexOf(key)).map(id => nodes[id].id).concat(node.id));
+            return;
+        }
+
+        state[key] = 'visiting';
+        chain.push(key);
+        for (let dependency of node.dependencies) {
+            let found = findNode(dependency);
+            if (found) {
+                visit(found);
+            }
+            else if (!isInstalled(dependency)) {
+                plan.unsatisfied.push({id: node.id, dependency: dependency});
+            }
+        }
+        chain.pop();
+        state[key] = 'done';
+        plan.order.push(node);
+    }
+
+    for (let node of requested) {
+        visit(node);
+    }
+
+    // An extension is broken by an unsatisfied dependency of its own or of a dependency, repeated for the cycles
+    var broken = plan.unsatisfied.map(unsatisfied => unsatisfied.id.toLowerCase());
+    var spreading = true;
+    while (spreading) {
+        spreading = false;
+        for (let node of plan.order) {
+            let key = node.id.toLowerCase();
+            if ((broken.indexOf(key) < 0) && node.dependencies.some(id => broken.indexOf(id.toLowerCase()) >= 0)) {
+                broken.push(key);
+                spreading = true;
+            }
+        }
+    }
+
+    plan.skipped = plan.order.filter(node => broken.indexOf(node.id.toLowerCase()) >= 0);
+    plan.order = plan.order.filter(node => broken.indexOf(node.id.toLowerCase()) < 0);
+
+    // Keep the added extensions in install order
+    plan.added = plan.order.filter(node => plan.added.indexOf(node) >= 0);
+    return plan;
+}
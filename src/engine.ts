@@ -0,0 +1,1553 @@
+'use strict';
+// Modules from Node.js
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Other libraries from npm
+const semver = require('semver');
+const stripJsonComments = require('strip-json-comments');
+
+// Modules from this extension
+import { RemoteSource, createRemoteSource, removePath, ensureDir } from './remoteSource';
+import { isVsixFile, readVsixManifest, extractVsix, createVsix, vsixFilename } from './vsix';
+import { editProperties, editValue } from './jsonEdit';
+import { EnvironmentManifest, MANIFEST_FILENAME, parseManifest, bestCandidate, findBlockedExtension, pinnedVersion } from './manifest';
+import { compareVersions, decideVersion } from './versions';
+import { declaredDependencies, resolveDependencies, isBuiltinExtension, UnsatisfiedDependency } from './dependencies';
+import { resolveConditionalSettings } from './conditions';
+import { EnvironmentReport, SettingDrift, ExtensionDrift } from './report';
+import { DEFAULT_PUBLISH_EXCLUDES } from './publish';
+import { TaskResult, runLimited, installStaged, verifyExtensionFolder } from './install';
+import { BackupStore } from './backup';
+import { DigestManifest, DIGESTS_FILENAME, SIGNATURE_FILENAME, sha256, digestDirectory, parseDigests, verifySignature, expectedDigest } from './integrity';
+import { MergeStrategy, findStrategy, mergeValue } from './mergeStrategy';
+import { VARIABLES_FILENAME, defaultContext, parseVariables, substituteVariables } from './variables';
+import { SettingsLayer, LayerSettings, LayeredValue, parseLayers, mergeLayers } from './settingsLayers';
+import { ProfileChange, jsonEqual, KEYBINDINGS_FILENAME, TASKS_FILENAME, SNIPPETS_FOLDER, isSnippetFile, compareKeybindings, compareSnippets, compareTasks } from './profileFiles';
+
+// Exception
+export function JSONError(message, filename) {
+    this.message = message;
+    this.filename = filename;
+    this.stack = (new Error()).stack;
+}
+
+// Extension found at the remote path
+export interface RemoteExtension {
+    id: string;
+    version: string;
+    // Folder or VSIX package at the remote path
+    name: string;
+    // Content of a VSIX package, null for an unpacked extension
+    vsixData: Buffer;
+    // Extension dependencies and extension pack members
+    dependencies: string[];
+}
+
+// Extension installed in the local extensions folder
+export interface LocalExtension {
+    id: string;
+    version: string;
+    extensionPath: string;
+}
+
+// Pending change to the local settings
+export interface SettingChange {
+    kind: 'rename' | 'remove' | 'default' | 'update';
+    key: string;
+    // New value, or the value moved by a rename
+    value?: any;
+    // Target of a rename
+    newKey?: string;
+    // Settings layer the value came from
+    layer?: string;
+    // How the value was combined with the local value
+    strategy?: MergeStrategy;
+}
+
+// Configured settings layer and where to read it
+export interface LayerSource {
+    layer: SettingsLayer;
+    source: RemoteSource;
+}
+
+// Pending change to the installed extensions
+export interface ExtensionChange {
+    kind: 'install' | 'uninstall';
+    id: string;
+    version: string;
+    // Extension to install
+    remote?: RemoteExtension;
+    // Folder of the extension to uninstall, or of the installed version a pinned version replaces
+    extensionPath?: string;
+    reason?: string;
+}
+
+// Number of extensions copied at the same time
+export const INSTALL_CONCURRENCY = 4;
+
+// Settings changes found by a fetch, and those approved and applied
+export interface SettingsFetch {
+    settings: SettingChange[];
+    files: ProfileChange[];
+    appliedSettings: SettingChange[];
+    appliedFiles: ProfileChange[];
+}
+
+// Extension required by the manifest that fetching can't bring in line
+export interface UnmetRequirement {
+    id: string;
+    // Version range, or the pinned version
+    required: string;
+    // Installed version, undefined when the extension is missing
+    localVersion?: string;
+    reason: string;
+}
+
+// Changes to match the remote extensions, and the extensions that can't be installed
+export interface ExtensionComparison {
+    changes: ExtensionChange[];
+    // Folders and packages at the remote path that aren't listed in the digests
+    refused: string[];
+    unmet: UnmetRequirement[];
+    // Installs left out as the extension wouldn't activate without a missing dependency
+    skipped: ExtensionChange[];
+    unsatisfied: UnsatisfiedDependency[];
+    cycles: string[][];
+}
+
+// Extension changes found by a fetch, and the results of those approved
+export interface ExtensionsFetch extends ExtensionComparison {
+    results: TaskResult<ExtensionChange>[];
+}
+
+// Find the extensions in an extensions folder, as Visual Studio Code does.
+// Folders of uninstalled extensions, listed in .obsolete until the next restart, and unfinished installs are skipped.
+// Only the newest version of an extension counts, older folders are removed on the next restart.
+export function scanExtensions(extensionPath: string): LocalExtension[] {
+    if (!fs.existsSync(extensionPath)) {
+        return [];
+    }
+
+    var obsolete = {};
+    try {
+        obsolete = JSON.parse(fs.readFileSync(path.join(extensionPath, '.obsolete'), 'UTF-8'));
+    }
+    catch (err) {
+        // Nothing is waiting to be removed
+    }
+
+    var extensions: LocalExtension[] = [];
+    for (let folder of fs.readdirSync(extensionPath)) {
+        let packageFile = path.join(extensionPath, folder, 'package.json');
+        if (folder.startsWith('.') || obsolete[folder] || !fs.existsSync(packageFile)) {
+            continue;
+        }
+
+        let packageJSON;
+        try {
+            packageJSON = JSON.parse(fs.readFileSync(packageFile, 'UTF-8'));
+        }
+        catch (err) {
+            throw new JSONError(err.message, packageFile);
+        }
+
+        let ext = {id: packageJSON['publisher'] + '.' + packageJSON['name'], version: packageJSON['version'], extensionPath: path.join(extensionPath, folder)};
+        let index = extensions.findIndex(found => found.id.toLowerCase() === ext.id.toLowerCase());
+        if (index < 0) {
+            extensions.push(ext);
+        }
+        else if (compareVersions(ext.version, extensions[index].version) > 0) {
+            extensions[index] = ext;
+        }
+    }
+
+    return extensions;
+}
+
+// Compares the local environment with the remote locations and applies the changes.
+// Free of the editor so it can also run on the command line, the subclasses provide the configuration and messages.
+export abstract class EnvironmentEngine {
+    protected _localExtensionPath : string;
+    protected _remoteExtensionPath : string;
+    protected _localSettingsPath : string;
+    protected _remoteSettingsPath : string;
+    protected _remoteDefaultSettingsFilename : string;
+    protected _remoteExtensionSource : RemoteSource = null;
+    protected _remoteSettingsSource : RemoteSource = null;
+    protected _manifest : EnvironmentManifest = null;
+    protected _layerSources : LayerSource[] = [];
+    protected _variables : {[name: string]: string} = {};
+    protected _digests : DigestManifest = null;
+    // Snapshots are taken before anything is changed, null to disable them
+    protected _backupPath : string = null;
+    // Local clones of git remotes
+    protected _gitCachePath : string = null;
+    // The report and the fetches share the state above, one holds it at a time and the others wait in turn
+    private _locked : boolean = false;
+    private _waiting : (() => void)[] = [];
+    // Extensions found at the remote extensions path, reused until the remote content changes
+    private _remoteExtensions : {location: string, fingerprint: string, extensions: RemoteExtension[]} = null;
+
+    protected _localExtVersions = {};
+    protected _localExtensions : LocalExtension[] = [];
+
+    // Value of a fetchUserEnv setting, e.g. 'syncTasks' for "fetchUserEnv.syncTasks"
+    protected abstract config<T>(key: string): T;
+
+    // Extensions installed in the local extensions folder
+    protected abstract installedExtensions(): LocalExtension[];
+
+    // Record a message, errors are brought to the user's attention
+    protected abstract log(message: string, isError?: boolean): void;
+
+    // Tell the user straight away, the details are in the log
+    protected abstract warn(message: string): void;
+
+    // Bring the log to the user's attention before changes are listed
+    protected showLog() {
+    }
+
+    // Let the user pick the changes to apply, all of them unless overridden
+    protected async reviewSettingChanges(changes: SettingChange[]) {
+        return changes;
+    }
+
+    protected async reviewProfileChanges(changes: ProfileChange[]) {
+        return changes;
+    }
+
+    protected async reviewExtensionChanges(changes: ExtensionChange[]) {
+        return changes;
+    }
+
+    // Apply the approved extension changes and log the results, overridden to show the progress
+    protected async installExtensionChanges(changes: ExtensionChange[]) {
+        var results = await this.applyExtensionChanges(changes, () => {}, () => false);
+        this.logExtensionResults(results);
+        return results;
+    }
+
+    // Run after the report or fetch in progress, if any
+    protected async exclusive<T>(task: () => Promise<T>): Promise<T> {
+        await this.lock();
+        try {
+            return await task();
+        }
+        finally {
+            this.unlock();
+        }
+    }
+
+    // Within exclusive(), let the others run while waiting for the user, a notification can stay open indefinitely
+    protected async unlocked<T>(wait: () => PromiseLike<T>): Promise<T> {
+        this.unlock();
+        try {
+            return await wait();
+        }
+        finally {
+            await this.lock();
+        }
+    }
+
+    private lock() {
+        if (!this._locked) {
+            this._locked = true;
+            return Promise.resolve();
+        }
+        return new Promise<void>(resolve => this._waiting.push(resolve));
+    }
+
+    private unlock() {
+        // Hand the lock straight to the next in line
+        var next = this._waiting.shift();
+        if (next) {
+            next();
+        }
+        else {
+            this._locked = false;
+        }
+    }
+
+    // Compare the environment with the remote locations without changing anything, null if no remote path is configured
+    public buildReport(): Promise<EnvironmentReport> {
+        return this.exclusive(async () => {
+            if (!this._remoteSettingsPath && !this._remoteExtensionPath) {
+                return null;
+            }
+
+            var report: EnvironmentReport = {generated: new Date().toISOString(), settings: [], extensions: [], unreachable: []};
+
+            if (this._remoteSettingsSource) {
+                try {
+                    report.settings = await this.reportSettings();
+                }
+                catch (err) {
+                    report.unreachable.push('Settings at "' + this._remoteSettingsPath + '": ' + (err.message || err));
+                }
+            }
+
+            if (this._remoteExtensionSource) {
+                try {
+                    report.extensions = await this.reportExtensions();
+                }
+                catch (err) {
+                    report.unreachable.push('Extensions at "' + this._remoteExtensionPath + '": ' + (err.message || err));
+                }
+            }
+
+            return report;
+        });
+    }
+
+    // Refresh the remote settings path, false if it holds neither a manifest nor settings
+    protected async remoteSettingsFound() {
+        await this._remoteSettingsSource.refresh();
+        return await this._remoteSettingsSource.exists(MANIFEST_FILENAME) || await this._remoteSettingsSource.exists('settings.json');
+    }
+
+    // Refresh the remote extensions path, false if it doesn't exist
+    protected async remoteExtensionsFound() {
+        await this._remoteExtensionSource.refresh();
+        return this._remoteExtensionSource.exists('');
+    }
+
+    protected async reportSettings() {
+        if (!await this.remoteSettingsFound()) {
+            throw new Error('neither "' + MANIFEST_FILENAME + '" nor "settings.json" exist');
+        }
+
+        this._manifest = await this.loadManifest();
+        this._layerSources = this.getLayerSources();
+        for (let layerSource of this._layerSources) {
+            await layerSource.source.refresh();
+        }
+
+        var localSettingsFile = path.join(this._localSettingsPath, 'settings.json');
+        var localSettings = fs.existsSync(localSettingsFile) ? this.readSettingsFile(localSettingsFile) : {};
+
+        // The same comparison as fetching the settings, without applying it
+        return (await this.compareSettings()).map(change => {
+            let drift: SettingDrift = {kind: change.kind, key: change.key, local: localSettings[change.key], layer: change.layer};
+            if (change.kind === 'rename') {
+                drift.newKey = change.newKey;
+            }
+            else if (change.kind !== 'remove') {
+                drift.remote = change.value;
+            }
+            return drift;
+        });
+    }
+
+    protected async reportExtensions() {
+        if (!await this.remoteExtensionsFound()) {
+            throw new Error('the path does not exist');
+        }
+
+        if (this._remoteSettingsSource) {
+            await this._remoteSettingsSource.refresh();
+        }
+        this._manifest = await this.loadManifest();
+        this._digests = await this.loadDigests();
+        this.getInstalledExtensions();
+
+        var drifts: ExtensionDrift[] = [];
+
+        // Blocked extensions are reported whatever their policy
+        if (this._manifest) {
+            for (let ext of this._localExtensions) {
+                let blocked = findBlockedExtension(this._manifest.blockedExtensions, ext.id, ext.version);
+                if (blocked) {
+                    drifts.push({kind: 'blocked', id: ext.id, localVersion: ext.version, reason: blocked.reason});
+                }
+            }
+        }
+
+        // The same comparison as fetching the extensions, without installing anything or telling the user
+        // Extensions skipped for a missing dependency are still missing or outdated
+        var comparison = await this.compareNewExtensions(true);
+        for (let change of comparison.changes.concat(comparison.skipped)) {
+            let localVersion = this.localExtensionVersion(change.id);
+            let kind: 'missing' | 'outdated' | 'pinned' = !localVersion ? 'missing'
+                                                        : (this._manifest && pinnedVersion(this._manifest, change.id)) ? 'pinned' : 'outdated';
+            drifts.push({kind: kind, id: change.id, localVersion: localVersion, remoteVersion: change.version});
+        }
+
+        // Required extensions that the remote path can't satisfy are drift all the same
+        for (let unmet of comparison.unmet) {
+            drifts.push({kind: 'unsatisfied', id: unmet.id, localVersion: unmet.localVersion, required: unmet.required, reason: unmet.reason});
+        }
+
+        return drifts;
+    }
+
+    // Load the manifest and the settings layers once the remote settings path is confirmed.
+    // Throws an Error naming the file that is missing, or a JSONError.
+    protected async loadSettingsSources() {
+        this._manifest = await this.loadManifest();
+
+        if (this._manifest) {
+            // Files listed by the manifest are not optional
+            let filenames = this._manifest.defaultSettings ? this._manifest.settings.concat(this._manifest.defaultSettings) : this._manifest.settings;
+            for (let filename of filenames) {
+                if (!await this._remoteSettingsSource.exists(filename)) {
+                    throw new Error('Settings file "' + filename + '" listed in the environment manifest does not exist in remote settings path "' + this._remoteSettingsPath + '"');
+                }
+            }
+        }
+
+        try {
+            this._layerSources = this.getLayerSources();
+        }
+        catch (err) {
+            throw new Error('Invalid settings layers configuration, ' + err.message);
+        }
+
+        for (let layerSource of this._layerSources) {
+            // Configured layers are not optional either
+            await layerSource.source.refresh();
+            if (!await layerSource.source.exists(layerSource.layer.file)) {
+                throw new Error('Settings file "' + layerSource.layer.file + '" of settings layer "' + layerSource.layer.name + '" does not exist at "' + layerSource.source.location + '"');
+            }
+        }
+    }
+
+    // Compare the settings and user files, let the user review them, take a snapshot and apply them.
+    // Nothing is changed on a dry run.
+    protected async fetchSettingChanges(review: boolean, dryRun: boolean = false): Promise<SettingsFetch> {
+        this.logRevision('settings', this._remoteSettingsSource);
+        for (let layerSource of this._layerSources) {
+            this.logRevision('settings layer "' + layerSource.layer.name + '"', layerSource.source);
+        }
+
+        var fetch: SettingsFetch = {settings: await this.compareSettings(), files: await this.compareProfileFiles(), appliedSettings: [], appliedFiles: []};
+        if (dryRun) {
+            return fetch;
+        }
+
+        fetch.appliedSettings = review ? await this.reviewSettingChanges(fetch.settings) : fetch.settings;
+        fetch.appliedFiles = review ? await this.reviewProfileChanges(fetch.files) : fetch.files;
+
+        if ((fetch.appliedSettings.length > 0) || (fetch.appliedFiles.length > 0)) {
+            // Keep a snapshot so the changes can be undone
+            let files = [path.join(this._localSettingsPath, 'settings.json')]
+                .concat(this.changedProfileFiles(fetch.appliedFiles).map(file => this.localProfilePath(file)));
+            await this.backupEnvironment('Fetch settings', files, []);
+
+            if (fetch.appliedSettings.length > 0) {
+                await this.applySettingChanges(fetch.appliedSettings);
+            }
+            if (fetch.appliedFiles.length > 0) {
+                await this.applyProfileChanges(fetch.appliedFiles);
+            }
+        }
+
+        return fetch;
+    }
+
+    // Load the manifest, the digests and the installed extensions once the remote extensions path is confirmed
+    protected async loadExtensionSources() {
+        this.logRevision('extensions', this._remoteExtensionSource);
+
+        // The environment manifest lives with the remote settings
+        if (this._remoteSettingsSource) {
+            await this._remoteSettingsSource.refresh();
+        }
+        this._manifest = await this.loadManifest();
+
+        try {
+            // Side loaded extensions must be signed when a public key is pinned
+            this._digests = await this.loadDigests();
+        }
+        catch (err) {
+            throw new Error('Refusing to install extensions, ' + err.message);
+        }
+
+        // Check versions of installed extensions
+        this.getInstalledExtensions();
+    }
+
+    // Compare the extensions, let the user review the changes, take a snapshot and apply them.
+    // Nothing is changed on a dry run.
+    protected async fetchExtensionChanges(review: boolean, dryRun: boolean = false): Promise<ExtensionsFetch> {
+        var fetch: ExtensionsFetch = Object.assign(await this.compareExtensions(), {results: []});
+        if (dryRun) {
+            return fetch;
+        }
+
+        var approved = review ? await this.reviewExtensionChanges(fetch.changes) : fetch.changes;
+        if (approved.length > 0) {
+            // Keep a snapshot so the changes can be undone
+            let folders = approved.filter(change => change.kind === 'install')
+                                  .map(change => this.extensionFolder(change.id, change.version))
+                                  .filter(folder => !fs.existsSync(folder));
+            // A pinned version removes the newer version it replaces
+            let replaced = approved.filter(change => (change.kind === 'install') && change.extensionPath).map(change => change.extensionPath);
+            await this.backupEnvironment('Fetch extensions', [], folders, replaced);
+
+            // Remove blocked extensions and copy newer versions
+            fetch.results = await this.installExtensionChanges(approved);
+        }
+
+        return fetch;
+    }
+
+    protected backupLimit() {
+        var limit = this.config<number>('backupLimit');
+        return (typeof limit === 'number') ? limit : 10;
+    }
+
+    protected backupStore() {
+        return new BackupStore(this._backupPath, this.backupLimit());
+    }
+
+    protected async backupEnvironment(description: string, files: string[], extensionFolders: string[], replacedFolders: string[] = []) {
+        if (!this._backupPath || (this.backupLimit() <= 0)) {
+            // Backups are disabled
+            return;
+        }
+
+        var snapshot = await this.backupStore().create(description, files, extensionFolders, replacedFolders);
+        this.log('Environment backup "' + snapshot.id + '" created');
+    }
+
+    protected logRevision(content: string, source: RemoteSource) {
+        if (source.revision) {
+            // Record which version of a versioned remote (e.g. git) is being applied
+            let logStr = 'Using ' + content + ' from "' + source.location + '" at commit ' + source.revision;
+            this.log(logStr);
+        }
+    }
+
+    protected async compareSettings() {
+        var localSettings = {};
+        var localSettingsFile = path.join(this._localSettingsPath, 'settings.json');
+
+        try {
+            // Read local settings file (therefore ignoring the workspace) so settings can be compared
+            if (fs.existsSync(localSettingsFile)) {
+                localSettings = this.readSettingsFile(localSettingsFile);
+            }
+
+            // Migrate first so renamed settings aren't treated as missing
+            let migrated = this.migrateSettings(localSettings);
+            localSettings = this.simulateSettingChanges(localSettings, migrated);
+
+            // Shared variables must be known before the remote settings are read
+            this._variables = await this.loadVariables();
+
+            // Merge the layers first, enforced values take precedence over the defaults
+            let layered = await this.readSettingsLayers();
+            let remote = this.compareRemoteSettings(localSettings, layered);
+            let defaults = this.compareDefaultSettings(localSettings, layered);
+
+            return migrated.concat(defaults, remote);
+        }
+        catch (err) {
+            throw err;
+        }
+    }
+
+    protected simulateSettingChanges(localSettings: {}, changes: SettingChange[]) {
+        var edits = this.settingEdits(changes);
+        var settings = Object.assign({}, localSettings, edits.newSettings);
+
+        for (let key of edits.removedKeys) {
+            delete settings[key];
+        }
+        return settings;
+    }
+
+    protected settingEdits(changes: SettingChange[]) {
+        var newSettings = {};
+        var removedKeys: string[] = [];
+
+        for (let change of changes) {
+            if (change.kind === 'rename') {
+                if (typeof change.value !== 'undefined') {
+                    newSettings[change.newKey] = change.value;
+                }
+                removedKeys.push(change.key);
+            }
+            else if (change.kind === 'remove') {
+                removedKeys.push(change.key);
+            }
+            else {
+                newSettings[change.key] = change.value;
+            }
+        }
+
+        return {newSettings: newSettings, removedKeys: removedKeys};
+    }
+
+    protected async applySettingChanges(changes: SettingChange[]) {
+        var groups = [
+            {kind: 'rename', title: 'Renaming config parameters'},
+            {kind: 'remove', title: 'Removing config parameters'},
+            {kind: 'default', title: 'Adding default config parameters'},
+            {kind: 'update', title: 'Updating config parameters'}
+        ];
+
+        this.showLog();
+
+        for (let group of groups) {
+            let logObj = {};
+            let found = false;
+
+            for (let change of changes.filter(item => item.kind === group.kind)) {
+                logObj[change.key] = (change.kind === 'rename') ? change.newKey
+                                   : (change.kind === 'remove') ? null
+                                   : change.value;
+                found = true;
+            }
+
+            if (found) {
+                let logStr = JSON.stringify(logObj, null, 2);
+                this.log(group.title);
+                this.log(logStr);
+            }
+        }
+
+        // Record where each value came from
+        for (let change of changes.filter(item => item.layer)) {
+            let logStr = '"' + change.key + '" from settings layer "' + change.layer + '"' + (change.strategy ? ', merged (' + change.strategy + ')' : '');
+            this.log(logStr);
+        }
+
+        var edits = this.settingEdits(changes);
+
+        // The settings folder doesn't exist yet on a fresh machine
+        await ensureDir(this._localSettingsPath);
+
+        try {
+            // Save settings
+            this.updateSettings(edits.newSettings, edits.removedKeys);
+        }
+        catch (err) {
+            throw err;
+        }
+    }
+
+    protected syncEnabled(setting: string) {
+        return this.config(setting) === true;
+    }
+
+    protected localProfilePath(file: string) {
+        return path.join(this._localSettingsPath, ...file.split('/'));
+    }
+
+    protected changedProfileFiles(changes: ProfileChange[]) {
+        var files: string[] = [];
+        for (let change of changes) {
+            if (files.indexOf(change.file) < 0) {
+                files.push(change.file);
+            }
+        }
+        return files;
+    }
+
+    protected async remoteProfileFiles() {
+        var files: string[] = [];
+
+        if (this.syncEnabled('syncKeybindings') && await this._remoteSettingsSource.exists(KEYBINDINGS_FILENAME)) {
+            files.push(KEYBINDINGS_FILENAME);
+        }
+        if (this.syncEnabled('syncTasks') && await this._remoteSettingsSource.exists(TASKS_FILENAME)) {
+            files.push(TASKS_FILENAME);
+        }
+        if (this.syncEnabled('syncSnippets') && await this._remoteSettingsSource.exists(SNIPPETS_FOLDER)) {
+            for (let entry of await this._remoteSettingsSource.list(SNIPPETS_FOLDER)) {
+                if (!entry.isDirectory && isSnippetFile(entry.name)) {
+                    files.push(SNIPPETS_FOLDER + '/' + entry.name);
+                }
+            }
+        }
+
+        return files;
+    }
+
+    protected async compareProfileFiles() {
+        var changes: ProfileChange[] = [];
+
+        // Each kind of file has its own merge rule
+        for (let file of await this.remoteProfileFiles()) {
+            let remoteData = (await this._remoteSettingsSource.readFile(file)).toString('utf8');
+            let remote = this.parseProfileFile(remoteData, this._remoteSettingsSource.resolve(file), file === KEYBINDINGS_FILENAME);
+
+            let localFile = this.localProfilePath(file);
+            let local = fs.existsSync(localFile) ? this.parseProfileFile(fs.readFileSync(localFile, 'UTF-8'), localFile, file === KEYBINDINGS_FILENAME) : null;
+
+            if (file === KEYBINDINGS_FILENAME) {
+                changes = changes.concat(compareKeybindings(local, remote));
+            }
+            else if (file === TASKS_FILENAME) {
+                changes = changes.concat(compareTasks(local, remote));
+            }
+            else {
+                changes = changes.concat(compareSnippets(file, local, remote));
+            }
+        }
+
+        return changes;
+    }
+
+    protected parseProfileFile(data: string, filePath: string, isList: boolean) {
+        if (!stripJsonComments(data).trim()) {
+            // Nothing but comments, same as a missing file
+            return null;
+        }
+
+        var json = this.parseSettings(data, filePath, false);
+        if ((isList !== Array.isArray(json)) || (typeof json !== 'object') || (json === null)) {
+            throw new JSONError(isList ? 'Expected a list' : 'Expected an object', filePath);
+        }
+        return json;
+    }
+
+    protected async applyProfileChanges(changes: ProfileChange[]) {
+        this.showLog();
+
+        for (let file of this.changedProfileFiles(changes)) {
+            let localFile = this.localProfilePath(file);
+            let localJSON = fs.existsSync(localFile) ? fs.readFileSync(localFile, 'UTF-8') : '';
+
+            for (let change of changes.filter(item => item.file === file)) {
+                let logStr = ((change.kind === 'add') ? 'Adding "' : 'Updating "') + change.label + '" in ' + file;
+                this.log(logStr);
+
+                // Edit only the changed entries, preserving comments and formatting
+                localJSON = editValue(localJSON, change.jsonPath, change.value);
+            }
+
+            await ensureDir(path.dirname(localFile));
+            fs.writeFileSync(localFile, localJSON, {encoding: 'UTF-8'});
+        }
+    }
+
+    protected migrateSettings(localSettings: {}) {
+        var changes: SettingChange[] = [];
+
+        // Only a manifest can remove or rename settings
+        if (!this._manifest) {
+            return changes;
+        }
+
+        for (let oldKey in this._manifest.renamedSettings) {
+            if (!localSettings.hasOwnProperty(oldKey)) {
+                continue;
+            }
+
+            let newKey = this._manifest.renamedSettings[oldKey];
+            // Move the user's value, an existing value under the new key wins
+            changes.push({kind: 'rename',
+                          key: oldKey,
+                          newKey: newKey,
+                          value: localSettings.hasOwnProperty(newKey) ? undefined : localSettings[oldKey]});
+        }
+
+        for (let key of this._manifest.removedSettings) {
+            if (localSettings.hasOwnProperty(key) && !changes.some(change => change.key === key)) {
+                changes.push({kind: 'remove', key: key});
+            }
+        }
+
+        return changes;
+    }
+
+    protected getLayerSources(): LayerSource[] {
+        var layers = parseLayers(this.config('settingsLayers'));
+
+        return layers.map(layer => ({
+            layer: layer,
+            // Layers without a location are read from the remote settings path
+            source: layer.location ? createRemoteSource(layer.location, this._gitCachePath) : this._remoteSettingsSource
+        }));
+    }
+
+    protected async readSettingsLayers() {
+        var layers: LayerSettings[] = [];
+
+        try {
+            // The remote settings path is the base layer, later files take precedence
+            for (let filename of (this._manifest ? this._manifest.settings : ['settings.json'])) {
+                layers.push({name: filename, mode: 'enforce', settings: await this.readRemoteSettingsFile(filename)});
+            }
+
+            // Has a file containing optional defaults been configured?
+            let defaultSettingsFilename = this._manifest ? this._manifest.defaultSettings : this._remoteDefaultSettingsFilename;
+            if (defaultSettingsFilename) {
+                layers.push({name: defaultSettingsFilename, mode: 'default', settings: await this.readRemoteSettingsFile(defaultSettingsFilename)});
+            }
+
+            // Followed by the configured layers, e.g. organisation < team < sub-team
+            for (let layerSource of this._layerSources) {
+                let data = await layerSource.source.readFile(layerSource.layer.file);
+                let settings = this.parseRemoteSettings(data.toString('utf8'), layerSource.source.resolve(layerSource.layer.file));
+                layers.push({name: layerSource.layer.name, mode: layerSource.layer.mode, settings: settings});
+            }
+        }
+        catch (err) {
+            throw err;
+        }
+
+        return mergeLayers(layers);
+    }
+
+    protected compareDefaultSettings(localSettings: {}, layered: {[key: string]: LayeredValue}) {
+        var changes: SettingChange[] = [];
+
+        for (let prop in layered) {
+            // Only add settings that are missing, ignore existing settings even if they are different
+            if ((layered[prop].mode === 'default') && !localSettings.hasOwnProperty(prop)) {
+                changes.push({kind: 'default', key: prop, value: layered[prop].value, layer: layered[prop].layer});
+            }
+        }
+
+        return changes;
+    }
+
+    protected compareRemoteSettings(localSettings: {}, layered: {[key: string]: LayeredValue}) {
+        var changes: SettingChange[] = [];
+
+        for (let prop in layered) {
+            if (layered[prop].mode !== 'enforce') {
+                continue;
+            }
+
+            let strategy = this._manifest ? findStrategy(this._manifest.mergeStrategies, prop) : 'replace';
+            if (strategy !== 'replace') {
+                // Keep the user's own entries, only the remote entries are guaranteed
+                let merged = mergeValue(strategy, localSettings[prop], layered[prop].value);
+                if (!localSettings.hasOwnProperty(prop) || !jsonEqual(localSettings[prop], merged)) {
+                    changes.push({kind: 'update', key: prop, value: merged, layer: layered[prop].layer, strategy: strategy});
+                }
+                continue;
+            }
+
+            let base = {};
+            let compare = {};
+            
+            base[prop] = localSettings[prop];
+            compare[prop] = layered[prop].value;
+            
+            // Returned object will have no properties if base & compare are the same
+            let res = this.compareUpdate(base, compare);
+            
+            if (res.hasOwnProperty(prop)) {
+                // Object has a property therefore a difference was found
+                // Add to list of required updates
+                changes.push({kind: 'update', key: prop, value: res[prop], layer: layered[prop].layer});
+            }
+        }
+
+        return changes;
+    }
+
+    protected compareUpdate(base: {}, compare: {}) {
+        // Quick wins, look for items that have been added or removed
+        // Are there nested items that need to be added?
+        for (let prop in compare) {
+            if ((typeof(base[prop]) === 'undefined')    // Property value within the initial base object is queried from the current environment and consequently may not actually exist.
+                || (!base.hasOwnProperty(prop))) {
+                // No need to keep searching
+                return compare;
+            }
+        }
+        // Are there nested items in the baseline that need to be removed?
+        for (let prop in base) {
+            if ((typeof(compare[prop]) === 'undefined') // Should be redundant but keep for consistency
+                || (!compare.hasOwnProperty(prop))) {
+                // No need to keep searching
+                return compare;
+            }
+        }
+
+        // Compare each item
+        for (let prop in compare) {
+            // Check if we need to dig deeper...
+            if (typeof(compare[prop]) === 'object') {
+                let diff = this.compareUpdate(base[prop] , compare[prop]);
+
+                // Check if differences were found
+                for (let key in diff) {
+                    if (diff.hasOwnProperty(key)) {
+                        // A difference was found, return entire object.
+                        // Returning differences only will delete matching items
+                        return compare;
+                    }
+                }
+            }
+            else if (base[prop] !== compare[prop]) {
+                // A difference was found, return entire object.
+                // Returning differences only will delete matching items
+                return compare;
+            }
+        }
+
+        // No differences, return empty object
+        return {};
+    }
+
+    protected getInstalledExtensions() {
+        var localExtensions = this.installedExtensions();
+        
+        this._localExtensions = localExtensions;
+
+        // Query the version of each installed extension
+        for (let ext in localExtensions) {
+            this._localExtVersions[localExtensions[ext].id] = localExtensions[ext].version;
+        }
+    }
+
+    protected async findRemoteExtensions() {
+        var source = this._remoteExtensionSource;
+        var fingerprint: string = null;
+        try {
+            // A versioned remote has just been refreshed, no need to ask again
+            fingerprint = source.revision || await source.fingerprint();
+        }
+        catch (err) {
+            // Nothing to compare with, the location is read as it is
+        }
+
+        // VSIX packages are read in full, don't read them again for every report
+        var cached = this._remoteExtensions;
+        if (fingerprint && cached && (cached.location === source.location) && (cached.fingerprint === fingerprint)) {
+            return cached.extensions;
+        }
+
+        var extensions = await this.readRemoteExtensions();
+        this._remoteExtensions = fingerprint ? {location: source.location, fingerprint: fingerprint, extensions: extensions} : null;
+        return extensions;
+    }
+
+    protected async readRemoteExtensions() {
+        // Find all extensions at the remote path
+        // Obtain list of all top level directories and VSIX packages
+        var entries = (await this._remoteExtensionSource.list('')).filter(entry => entry.isDirectory || isVsixFile(entry.name));
+
+        var extensions: RemoteExtension[] = [];
+
+        for (let entry of entries) {
+            if (entry.isDirectory) {
+                let packageFile = entry.name + '/package.json';
+
+                if (!await this._remoteExtensionSource.exists(packageFile)) {
+                    // Not a valid extension directory, skip
+                    continue;
+                }
+
+                // Query extension ID
+                let json_file;
+                let packageData = await this._remoteExtensionSource.readFile(packageFile);
+
+                try {
+                    json_file = JSON.parse(packageData.toString('utf8'));
+                }
+                catch (err) {
+                    throw new JSONError(err.message, this._remoteExtensionSource.resolve(packageFile));
+                }
+
+                extensions.push({id: json_file['publisher'] + '.' + json_file['name'],
+                                 version: json_file['version'],
+                                 name: entry.name,
+                                 vsixData: null,
+                                 dependencies: declaredDependencies(json_file)});
+            }
+            else {
+                // Query extension ID from the package.json within the VSIX package
+                let vsixData = await this._remoteExtensionSource.readFile(entry.name);
+
+                try {
+                    let manifest = await readVsixManifest(vsixData);
+                    extensions.push({id: manifest.id, version: manifest.version, name: entry.name, vsixData: vsixData, dependencies: declaredDependencies(manifest.packageJSON)});
+                }
+                catch (err) {
+                    throw new JSONError(err.message, this._remoteExtensionSource.resolve(entry.name));
+                }
+            }
+        }
+
+        return extensions;
+    }
+
+    protected localExtensionVersion(id: string): string {
+        // Extension IDs are case insensitive
+        for (let localId in this._localExtVersions) {
+            if (localId.toLowerCase() === id.toLowerCase()) {
+                return this._localExtVersions[localId];
+            }
+        }
+        return undefined;
+    }
+
+    protected async compareExtensions(): Promise<ExtensionComparison> {
+        // Remove blocked extensions before anything is installed
+        var blocked = this.compareBlockedExtensions();
+        var installs = await this.compareNewExtensions(false);
+
+        return Object.assign(installs, {changes: blocked.concat(installs.changes)});
+    }
+
+    protected compareBlockedExtensions() {
+        var changes: ExtensionChange[] = [];
+
+        if (!this._manifest) {
+            // Only a manifest can block extensions
+            return changes;
+        }
+
+        var warned: boolean = false;
+
+        for (let ext of this._localExtensions) {
+            let version = ext.version;
+            let blocked = findBlockedExtension(this._manifest.blockedExtensions, ext.id, version);
+
+            if (!blocked) {
+                continue;
+            }
+
+            if (blocked.policy === 'uninstall') {
+                changes.push({kind: 'uninstall', id: ext.id, version: version, extensionPath: ext.extensionPath, reason: blocked.reason});
+            }
+            else {
+                let logStr = 'Blocked extension "' + ext.id + '" version ' + version + ' is installed' + (blocked.reason ? ': ' + blocked.reason : '');
+                this.log(logStr, true);
+                warned = true;
+            }
+        }
+
+        if (warned) {
+            this.warn('Blocked extensions are installed, please uninstall them.  See output for details.');
+        }
+
+        return changes;
+    }
+
+    protected isBlockedForInstall(ext: RemoteExtension) {
+        let blocked = this._manifest ? findBlockedExtension(this._manifest.blockedExtensions, ext.id, ext.version) : null;
+        return blocked && (blocked.policy === 'uninstall');
+    }
+
+    // Nothing is logged when quiet, e.g. for the report
+    protected async compareNewExtensions(quiet: boolean): Promise<ExtensionComparison> {
+        // Never install an extension that would be removed again, or one that isn't signed
+        var refusedExtensions: RemoteExtension[] = [];
+        var extensions = (await this.findRemoteExtensions()).filter(ext => {
+            if (this.isBlockedForInstall(ext)) {
+                return false;
+            }
+            if (!this.isListedInDigests(ext)) {
+                refusedExtensions.push(ext);
+                return false;
+            }
+            return true;
+        });
+        var refused = refusedExtensions.map(ext => ext.name);
+
+        if ((refused.length > 0) && !quiet) {
+            for (let name of refused) {
+                let logStr = 'Refusing extension "' + name + '", it is not listed in ' + DIGESTS_FILENAME;
+                this.log(logStr, true);
+            }
+            this.warn(refused.length + ' extension(s) at the remote path are not listed in ' + DIGESTS_FILENAME + ' and were refused.  See output for details.');
+        }
+
+        // Remote version chosen for each required extension
+        var unmet: UnmetRequirement[] = [];
+        var targets: {ext: RemoteExtension, pinned: boolean, range?: string}[] = [];
+
+        if (this._manifest) {
+            // The manifest is the source of truth, install the pinned version or the best version satisfying each requirement
+            let ids = Object.keys(this._manifest.extensions);
+
+            // Pinned extensions are required as well
+            for (let id in this._manifest.pinnedExtensions) {
+                if (!ids.some(required => required.toLowerCase() === id.toLowerCase())) {
+                    ids.push(id);
+                }
+            }
+
+            for (let id of ids) {
+                let range = this._manifest.extensions[id];
+                let pinned = pinnedVersion(this._manifest, id);
+                let best = pinned ? extensions.find(ext => (ext.id.toLowerCase() === id.toLowerCase()) && (ext.version === pinned))
+                                  : bestCandidate(extensions, id, range);
+
+                if (!best) {
+                    let localVersion = this.localExtensionVersion(id);
+                    if (pinned ? (localVersion !== pinned) : !this.satisfiesRange(localVersion, range)) {
+                        let wasRefused = refusedExtensions.some(ext => (ext.id.toLowerCase() === id.toLowerCase()) && (pinned ? (ext.version === pinned) : this.satisfiesRange(ext.version, range)));
+                        unmet.push({id: id, required: pinned || range, localVersion: localVersion,
+                                    reason: wasRefused ? 'not listed in ' + DIGESTS_FILENAME : 'not available at the remote path'});
+                    }
+                    continue;
+                }
+
+                targets.push({ext: best, pinned: !!pinned, range: range});
+            }
+        }
+        else {
+            // Without a manifest every extension at the remote path is required, in its newest version
+            let newest: {[id: string]: RemoteExtension} = {};
+            for (let ext of extensions) {
+                let id = ext.id.toLowerCase();
+                if (!newest[id] || (compareVersions(ext.version, newest[id].version) > 0)) {
+                    newest[id] = ext;
+                }
+            }
+            for (let id in newest) {
+                targets.push({ext: newest[id], pinned: false});
+            }
+
+            // Refused extensions are required all the same, unless another version is accepted
+            for (let ext of refusedExtensions) {
+                let localVersion = this.localExtensionVersion(ext.id);
+                if (!newest[ext.id.toLowerCase()] && ((typeof localVersion === 'undefined') || (compareVersions(localVersion, ext.version) < 0))
+                    && !unmet.some(requirement => requirement.id.toLowerCase() === ext.id.toLowerCase())) {
+                    unmet.push({id: ext.id, required: ext.version, localVersion: localVersion, reason: 'not listed in ' + DIGESTS_FILENAME});
+                }
+            }
+        }
+
+        var changes: ExtensionChange[] = [];
+
+        for (let target of targets) {
+            let ext = target.ext;
+            let localVersion = this.localExtensionVersion(ext.id);
+            let decision = decideVersion(ext.id, localVersion, ext.version, target.pinned);
+
+            if (!quiet) {
+                this.log(decision.explanation);
+            }
+            if (!decision.install && target.range && !target.pinned && !this.satisfiesRange(localVersion, target.range)) {
+                unmet.push({id: ext.id, required: target.range, localVersion: localVersion, reason: 'keeping the newer installed version'});
+            }
+
+            if (!decision.install) {
+                // Correct version, move along
+                continue;
+            }
+
+            let change: ExtensionChange = {kind: 'install', id: ext.id, version: ext.version, remote: ext};
+            let installed = decision.replace ? this.localExtension(ext.id) : null;
+            if (installed && this.isUserExtension(installed) && (path.resolve(installed.extensionPath) !== path.resolve(this.extensionFolder(ext.id, ext.version)))) {
+                // VS Code would keep using the newer version, it is removed once the pinned version is in place
+                change.extensionPath = installed.extensionPath;
+                change.reason = 'pinned, replaces version ' + installed.version;
+            }
+            changes.push(change);
+        }
+
+        if ((unmet.length > 0) && !quiet) {
+            for (let requirement of unmet) {
+                let logStr = 'Required extension "' + requirement.id + '" ' + requirement.required + ' is '
+                             + (requirement.localVersion ? 'not met by installed version ' + requirement.localVersion : 'not installed') + ', ' + requirement.reason;
+                this.log(logStr, true);
+            }
+            this.warn('Required extensions cannot be installed from the remote path, see output for details.');
+        }
+
+        return Object.assign(this.addDependencies(changes, extensions, quiet), {refused: refused, unmet: unmet});
+    }
+
+    protected satisfiesRange(localVersion: string, range: string) {
+        return !!semver.valid(localVersion) && semver.satisfies(localVersion, range);
+    }
+
+    // Install the dependencies that are missing as well, every extension after its dependencies.
+    // Extensions needing a dependency that can't be installed are skipped, they would fail to activate.
+    protected addDependencies(changes: ExtensionChange[], extensions: RemoteExtension[], quiet: boolean) {
+        var plan = resolveDependencies(changes.map(change => change.remote), extensions,
+                                       id => isBuiltinExtension(id) || (typeof this.localExtensionVersion(id) !== 'undefined'));
+
+        // Name the extensions each added dependency is installed for
+        var requiredBy = (ext: RemoteExtension) => plan.order.filter(node => node.dependencies.some(id => id.toLowerCase() === ext.id.toLowerCase()))
+                                                             .map(node => '"' + node.id + '"').join(', ');
+
+        if (!quiet) {
+            for (let ext of plan.added) {
+                this.log('Extension "' + ext.id + '" is not installed, installing version ' + ext.version + ' required by ' + requiredBy(ext));
+            }
+            for (let unsatisfied of plan.unsatisfied) {
+                this.log('Extension "' + unsatisfied.id + '" depends on "' + unsatisfied.dependency + '", which is neither installed nor available at the remote path', true);
+            }
+            for (let cycle of plan.cycles) {
+                this.log('Extension dependency cycle: ' + cycle.map(id => '"' + id + '"').join(' -> '), true);
+            }
+            for (let ext of plan.skipped) {
+                this.log('Extension "' + ext.id + '" version ' + ext.version + ' is not installed, a dependency is missing', true);
+            }
+            if ((plan.unsatisfied.length > 0) || (plan.cycles.length > 0)) {
+                this.warn('Extension dependencies are missing or circular, see output for details.');
+            }
+        }
+
+        return {
+            changes: plan.order.map(ext => changes.find(change => change.remote === ext)
+                                           || {kind: 'install', id: ext.id, version: ext.version, remote: ext, reason: 'required by ' + requiredBy(ext)} as ExtensionChange),
+            // Only the requested installs, a skipped dependency wasn't needed by anything else
+            skipped: changes.filter(change => plan.skipped.indexOf(change.remote) >= 0),
+            unsatisfied: plan.unsatisfied,
+            cycles: plan.cycles
+        };
+    }
+
+    protected localExtension(id: string) {
+        return this._localExtensions.find(ext => ext.id.toLowerCase() === id.toLowerCase());
+    }
+
+    // Built-in extensions are never removed
+    protected isUserExtension(ext: LocalExtension) {
+        return !!ext.extensionPath && (path.resolve(path.dirname(ext.extensionPath)) === path.resolve(this._localExtensionPath));
+    }
+
+    protected isListedInDigests(ext: RemoteExtension) {
+        return !this._digests || !!expectedDigest(this._digests, ext.name);
+    }
+
+    // Remove blocked extensions and copy newer versions, several at a time
+    protected applyExtensionChanges(changes: ExtensionChange[], done: (change: ExtensionChange) => void, isCancelled: () => boolean) {
+        // Installs wait for the dependencies installed in the same run, the changes are in dependency order
+        var installing: {[id: string]: Promise<void>} = {};
+
+        return runLimited(changes, INSTALL_CONCURRENCY, async change => {
+            if (change.kind === 'uninstall') {
+                // VS Code drops the extension once its folder is gone and the window is reloaded
+                await removePath(change.extensionPath);
+                delete this._localExtVersions[change.id];
+            }
+            else {
+                let dependencies = change.remote.dependencies.filter(id => installing[id.toLowerCase()]).map(id => installing[id.toLowerCase()].catch(() => {
+                    throw new Error('dependency "' + id + '" failed to install');
+                }));
+                let install = Promise.all(dependencies).then(async () => {
+                    await this.installExtension(change.remote);
+                    if (change.extensionPath) {
+                        await removePath(change.extensionPath);
+                    }
+                });
+                installing[change.id.toLowerCase()] = install;
+                await install;
+            }
+            done(change);
+        }, isCancelled);
+    }
+
+    protected logExtensionResults(results: TaskResult<ExtensionChange>[]) {
+        for (let result of results) {
+            let change = result.item;
+
+            if (result.status === 'succeeded') {
+                this.log((change.kind === 'uninstall')
+                    ? 'Removed blocked extension "' + change.id + '" version ' + change.version + (change.reason ? ': ' + change.reason : '')
+                    : 'Installed extension "' + change.id + '" version ' + change.version + (change.reason ? ', ' + change.reason : ''));
+            }
+            else if (result.status === 'failed') {
+                this.log('Failed to ' + change.kind + ' extension "' + change.id + '" version ' + change.version + ': ' + (result.error && result.error.message || result.error), true);
+            }
+            else {
+                this.log('Cancelled ' + change.kind + ' of extension "' + change.id + '" version ' + change.version);
+            }
+        }
+    }
+
+    protected extensionFolder(id: string, version: string) {
+        return path.join(this._localExtensionPath, id + '-' + version);
+    }
+
+    protected async installExtension(ext: RemoteExtension) {
+        // Missing or old version, copy from remote source.
+        // No need to remove old version, VS Code will do that automatically upon restart
+        this.log('Updating extension "' + ext.id + '" to version ' + ext.version);
+
+        if (ext.vsixData) {
+            // Check the package before anything is unpacked
+            this.checkDigest(ext, sha256(ext.vsixData));
+        }
+
+        // Copy to a staging folder first, a half copied extension never ends up in the extensions folder
+        await installStaged(this.extensionFolder(ext.id, ext.version), async stagingPath => {
+            if (ext.vsixData) {
+                await extractVsix(ext.vsixData, stagingPath);
+            }
+            else {
+                await this._remoteExtensionSource.copyDirectory(ext.name, stagingPath);
+            }
+        }, stagingPath => {
+            verifyExtensionFolder(stagingPath, ext.id, ext.version);
+
+            // Check the copy itself, the remote folder may have changed in the meantime
+            if (!ext.vsixData && this._digests) {
+                this.checkDigest(ext, digestDirectory(stagingPath));
+            }
+        });
+    }
+
+    protected checkDigest(ext: RemoteExtension, digest: string) {
+        if (this._digests && (expectedDigest(this._digests, ext.name) !== digest)) {
+            throw new Error('refused, its SHA-256 digest ' + digest + ' does not match ' + DIGESTS_FILENAME);
+        }
+    }
+
+    protected async loadDigests() {
+        var publicKey = this.config<string>('extensionPublicKey');
+        if (!publicKey) {
+            // Verification is enabled by pinning a public key
+            return null;
+        }
+
+        for (let filename of [DIGESTS_FILENAME, SIGNATURE_FILENAME]) {
+            if (!await this._remoteExtensionSource.exists(filename)) {
+                throw new Error('"' + filename + '" does not exist in specified remote extensions path "' + this._remoteExtensionPath + '"');
+            }
+        }
+
+        let data = await this._remoteExtensionSource.readFile(DIGESTS_FILENAME);
+        let signature = await this._remoteExtensionSource.readFile(SIGNATURE_FILENAME);
+        if (!verifySignature(data, signature, publicKey)) {
+            throw new Error('the signature of "' + DIGESTS_FILENAME + '" does not match the public key in "fetchUserEnv.extensionPublicKey"');
+        }
+
+        try {
+            return parseDigests(data.toString('utf8'));
+        }
+        catch (err) {
+            throw new Error('"' + DIGESTS_FILENAME + '" is invalid, ' + err.message);
+        }
+    }
+
+    // Glob patterns of the settings keys and extension IDs that aren't published by default
+    protected publishExcludes() {
+        var settings = this.config<string[]>('publishExclude') || [];
+        if (this.config('publishExcludeDefaults') !== false) {
+            settings = DEFAULT_PUBLISH_EXCLUDES.concat(settings);
+        }
+
+        return {settings: settings, extensions: this.config<string[]>('publishExcludeExtensions') || []};
+    }
+
+    protected userExtensions() {
+        // Filter out this extension!
+        return this.installedExtensions().filter(ext => {
+            return !ext.extensionPath.includes('fetch-user-environment');
+        });
+    }
+
+    protected saveAsVsix() {
+        // Save as unpacked folders or VSIX packages
+        return this.config('saveExtensionsAs') === 'vsix';
+    }
+
+    // Folder or VSIX package of an extension at the remote path
+    protected savedExtensionName(ext: LocalExtension) {
+        return this.saveAsVsix() ? vsixFilename(ext.id, ext.version) : path.basename(ext.extensionPath);
+    }
+
+    // To prevent an accidental overwrite the environment is only saved to empty remote locations
+    protected async remotesEmpty() {
+        var settingsPath: string;
+        var extensionPath: string;
+
+        if (os.platform() === 'win32') {
+            // Windows is case preserving, case insensitive
+            // Convert to lowercase
+            settingsPath = String(this._remoteSettingsPath).toLowerCase();
+            extensionPath = String(this._remoteExtensionPath).toLowerCase();
+        }
+        else {
+            settingsPath = String(this._remoteSettingsPath);
+            extensionPath = String(this._remoteExtensionPath);
+        }
+
+        // Are the remote paths empty?  Count the number of items.
+        var items = (await this._remoteSettingsSource.list('')).length;
+        items += (await this._remoteExtensionSource.list('')).length;
+
+        // Check if paths are nested.
+        if ((settingsPath !== extensionPath)
+            && (settingsPath.startsWith(extensionPath)
+                || extensionPath.startsWith(settingsPath)))
+        {
+            // Nested, reduce item count.
+            items -= 1;
+        }
+
+        return items <= 0;
+    }
+
+    // Save the settings, the other user files and the extensions to the remote locations
+    protected async writeEnvironment(settings: {}, extensions: LocalExtension[], done: (ext: LocalExtension) => void) {
+        // Save to remote
+        var remoteSettingsJSON = JSON.stringify(settings, null, 2);
+        await this._remoteSettingsSource.writeFile('settings.json', remoteSettingsJSON);
+
+        // Copy the other user files as they are
+        var profileFiles: string[] = [];
+        if (this.syncEnabled('syncKeybindings')) {
+            profileFiles.push(KEYBINDINGS_FILENAME);
+        }
+        if (this.syncEnabled('syncTasks')) {
+            profileFiles.push(TASKS_FILENAME);
+        }
+        if (this.syncEnabled('syncSnippets') && fs.existsSync(this.localProfilePath(SNIPPETS_FOLDER))) {
+            for (let filename of fs.readdirSync(this.localProfilePath(SNIPPETS_FOLDER)).filter(isSnippetFile)) {
+                profileFiles.push(SNIPPETS_FOLDER + '/' + filename);
+            }
+        }
+        for (let file of profileFiles) {
+            if (fs.existsSync(this.localProfilePath(file))) {
+                await this._remoteSettingsSource.writeFile(file, fs.readFileSync(this.localProfilePath(file)));
+            }
+        }
+
+        // Copy extensions
+        var digests: DigestManifest = {extensions: await this.saveExtensions(extensions, done)};
+
+        // The digests still have to be signed with the private key, see the README
+        await this._remoteExtensionSource.writeFile(DIGESTS_FILENAME, JSON.stringify(digests, null, 2));
+        this.log('Extension digests saved to "' + this._remoteExtensionSource.resolve(DIGESTS_FILENAME) + '", sign them to enable verification');
+
+        // Index the content so the remote locations can also be served over HTTP(S)
+        await this._remoteSettingsSource.updateIndex();
+        await this._remoteExtensionSource.updateIndex();
+    }
+
+    // Copy extensions to the remote path, returns the digest of each folder or VSIX package
+    protected async saveExtensions(extensions: LocalExtension[], done: (ext: LocalExtension) => void) {
+        var saveAsVsix = this.saveAsVsix();
+        var digests: {[name: string]: string} = {};
+
+        var results = await runLimited(extensions, INSTALL_CONCURRENCY, async ext => {
+            let srcPath = ext.extensionPath;
+            let name = this.savedExtensionName(ext);
+            if (saveAsVsix) {
+                let vsixData = await createVsix(srcPath);
+                await this._remoteExtensionSource.writeFile(name, vsixData);
+                digests[name] = sha256(vsixData);
+            }
+            else {
+                await this._remoteExtensionSource.copyDirectoryFrom(srcPath, name);
+                digests[name] = digestDirectory(srcPath);
+            }
+            done(ext);
+        });
+
+        var failed = results.filter(result => result.status === 'failed');
+        for (let result of failed) {
+            this.log('Failed to save extension "' + result.item.id + '": ' + (result.error && result.error.message || result.error), true);
+        }
+        if (failed.length > 0) {
+            throw new Error(failed.length + ' extension(s) could not be saved');
+        }
+
+        return digests;
+    }
+
+    protected async loadManifest() {
+        if (!this._remoteSettingsSource || !await this._remoteSettingsSource.exists(MANIFEST_FILENAME)) {
+            // No manifest, the remote paths determine the environment
+            return null;
+        }
+
+        let data = await this._remoteSettingsSource.readFile(MANIFEST_FILENAME);
+
+        try {
+            return parseManifest(data.toString('utf8'));
+        }
+        catch (err) {
+            throw new JSONError(err.message, this._remoteSettingsSource.resolve(MANIFEST_FILENAME));
+        }
+    }
+
+    protected async readRemoteSettingsFile(filename: string) {
+        let data = await this._remoteSettingsSource.readFile(filename);
+        return this.parseRemoteSettings(data.toString('utf8'), this._remoteSettingsSource.resolve(filename));
+    }
+
+    protected parseRemoteSettings(data: string, filePath: string) {
+        // Resolve the platform and host conditional blocks before settings related to this extension are filtered out
+        var settings = this.parseSettings(data, filePath, false);
+
+        try {
+            settings = this.filterSettings(resolveConditionalSettings(settings));
+            // Values are written with the ${...} placeholders expanded
+            return substituteVariables(settings, defaultContext(this._localSettingsPath, this._variables));
+        }
+        catch (err) {
+            throw new JSONError(err.message, filePath);
+        }
+    }
+
+    protected async loadVariables() {
+        if (!await this._remoteSettingsSource.exists(VARIABLES_FILENAME)) {
+            // Optional, only ${var:...} placeholders need it
+            return {};
+        }
+
+        let data = await this._remoteSettingsSource.readFile(VARIABLES_FILENAME);
+        let filePath = this._remoteSettingsSource.resolve(VARIABLES_FILENAME);
+        let json = this.parseSettings(data.toString('utf8'), filePath, false);
+
+        try {
+            return parseVariables(json, defaultContext(this._localSettingsPath));
+        }
+        catch (err) {
+            throw new JSONError(err.message, filePath);
+        }
+    }
+
+    protected readSettingsFile(filePath: string, filter: boolean = true) {
+        return this.parseSettings(fs.readFileSync(filePath, 'UTF-8'), filePath, filter);
+    }
+
+    protected parseSettings(data: string, filePath: string, filter: boolean = true) {
+        try {
+            // Read settings file
+            // Need to strip comments out...
+            var settingsFile = JSON.parse(stripJsonComments(data));
+        }
+        catch (err) {
+            // Invalid JSON data
+            throw new JSONError(err.message, filePath);
+        }
+
+        return filter ? this.filterSettings(settingsFile) : settingsFile;
+    }
+
+    protected filterSettings(settings: {}) {
+        // Filter out settings related to this extension
+        for (let prop in settings) {
+            if (settings.hasOwnProperty(prop) && prop.startsWith('fetchUserEnv')) {
+                delete settings[prop];
+            }
+        }
+
+        return settings;
+    }
+
+    protected updateSettings(newSettings: {}, removedKeys: string[] = []) {
+        var localSettingsJSON = '';
+        var localSettingsFile = path.join(this._localSettingsPath, 'settings.json');
+
+        // Does the local settings file exist yet?
+        if (fs.existsSync(localSettingsFile)) {
+            try {
+                // It exists!  Validate the local settings file so new settings can be merged and saved
+                // Don't filter out settings related to this extension
+                this.readSettingsFile(localSettingsFile, false);
+            }
+            catch (err) {
+                throw err;
+            }
+            localSettingsJSON = fs.readFileSync(localSettingsFile, 'UTF-8');
+        }
+
+        // Edit only the changed settings, preserving comments and formatting
+        localSettingsJSON = editProperties(localSettingsJSON, newSettings, removedKeys);
+
+        // Save back to disk (creating the local settings file if required)
+        fs.writeFileSync(localSettingsFile, localSettingsJSON, {encoding: 'UTF-8'});
+    }
+}
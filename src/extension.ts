@@ -8,17 +8,19 @@ import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 
-// Other libraries from npm
-const fse = require('fs-extra');
-const compareVer = require('semver-compare');
-const stripJsonComments = require('strip-json-comments');
-
-// Exception
-function JSONError(message, filename) {
-    this.message = message;
-    this.filename = filename;
-    this.stack = (new Error()).stack;
-}
+// Modules from this extension
+import { createRemoteSource, ensureDir } from './remoteSource';
+import { editProperties } from './jsonEdit';
+import { MANIFEST_FILENAME } from './manifest';
+import { ChangeWatcher } from './watcher';
+import { EnvironmentReport, complianceStatus, reportToMarkdown, reportToJSON } from './report';
+import { PublishItem, PublishedExtension, diffSettings, diffExtensions, expiredVersions, isExcludedSetting, isExcludedExtension, templatedSettings } from './publish';
+import { TaskResult } from './install';
+import { DigestManifest, DIGESTS_FILENAME, parseDigests } from './integrity';
+import { productInfo, resolveLocalPaths } from './localPaths';
+import { ProfileChange, SNIPPETS_FOLDER } from './profileFiles';
+import { JSONError, LocalExtension, SettingChange, ExtensionChange, EnvironmentEngine, scanExtensions } from './engine';
+import { compareVersions } from './versions';
 
 // Output messages
 const fetchMsgChannel = vscode.window.createOutputChannel('Fetch User Environment');
@@ -33,25 +35,159 @@ export async function activate(context: vscode.ExtensionContext) {
     var remoteDefSetFile = config.get('remoteDefaultSettingsFilename');
 
     // New environment fetcher
-    var environmentFetcher = new FetchEnvironment(remoteExtPath, remoteSetPath, remoteDefSetFile);
+    var environmentFetcher = new FetchEnvironment(remoteExtPath, remoteSetPath, remoteDefSetFile, context);
+
+    // Show whether the environment matches the remote environment, click for the details
+    var statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+    statusItem.command = 'fetchUserEnv.report';
+    context.subscriptions.push(statusItem);
+
+    var updateStatus = async (report?: EnvironmentReport) => {
+        if (vscode.workspace.getConfiguration('fetchUserEnv').get('showStatus') === false) {
+            statusItem.hide();
+            return;
+        }
+
+        try {
+            report = report || await environmentFetcher.buildReport();
+        } catch (err) {
+            console.error(err);
+            report = null;
+        }
+
+        if (!report) {
+            // Nothing to compare with
+            statusItem.hide();
+            return;
+        }
+
+        switch (complianceStatus(report)) {
+            case 'compliant':
+                statusItem.text = '$(check) Environment';
+                statusItem.tooltip = 'The environment matches the remote environment';
+                break;
+            case 'drifted':
+                statusItem.text = '$(alert) Environment drifted';
+                statusItem.tooltip = report.settings.length + ' setting(s) and ' + report.extensions.length + ' extension(s) differ from the remote environment';
+                break;
+            default:
+                statusItem.text = '$(plug) Environment unreachable';
+                statusItem.tooltip = 'The remote environment cannot be read';
+                break;
+        }
+        statusItem.show();
+    };
 
     // Register Commands
     let fetchExtDisposable = vscode.commands.registerCommand('fetchUserEnv.extensions', async function() {
+        // Clear messages
+        fetchMsgChannel.clear();
+
         try {
             await environmentFetcher.fetchExtensions(true);
         } catch (err) {
             vscode.window.showErrorMessage('Failed to fetch extensions.');
             console.error(err);
         }
+
+        await updateStatus();
     });
 
     let fetchSetDisposable = vscode.commands.registerCommand('fetchUserEnv.settings', async function() {
+        // Clear messages
+        fetchMsgChannel.clear();
+
         try {
             await environmentFetcher.fetchSettings(true);
         } catch (err) {
             vscode.window.showErrorMessage('Failed to fetch settings.');
             console.error(err);
         }
+
+        await updateStatus();
+    });
+
+    let previewDisposable = vscode.commands.registerCommand('fetchUserEnv.preview', async function() {
+        // Clear messages
+        fetchMsgChannel.clear();
+
+        // Review every change, whatever the configuration
+        try {
+            await environmentFetcher.fetchExtensions(true, true);
+        } catch (err) {
+            vscode.window.showErrorMessage('Failed to fetch extensions.');
+            console.error(err);
+        }
+
+        try {
+            await environmentFetcher.fetchSettings(true, true);
+        } catch (err) {
+            vscode.window.showErrorMessage('Failed to fetch settings.');
+            console.error(err);
+        }
+
+        await updateStatus();
+    });
+
+    let restoreDisposable = vscode.commands.registerCommand('fetchUserEnv.restore', async function() {
+        try {
+            await environmentFetcher.restoreEnvironment();
+        } catch (err) {
+            vscode.window.showErrorMessage('Failed to restore environment.');
+            console.error(err);
+        }
+
+        await updateStatus();
+    });
+
+    let reportDisposable = vscode.commands.registerCommand('fetchUserEnv.report', async function() {
+        try {
+            let report = await environmentFetcher.buildReport();
+            if (!report) {
+                vscode.window.showWarningMessage('No remote paths are configured, there is nothing to compare with.');
+                return;
+            }
+            await updateStatus(report);
+
+            let document = await vscode.workspace.openTextDocument({language: 'markdown', content: reportToMarkdown(report)});
+            await vscode.window.showTextDocument(document);
+        } catch (err) {
+            vscode.window.showErrorMessage('Failed to create environment report.');
+            console.error(err);
+        }
+    });
+
+    let exportReportDisposable = vscode.commands.registerCommand('fetchUserEnv.exportReport', async function() {
+        try {
+            let report = await environmentFetcher.buildReport();
+            if (!report) {
+                vscode.window.showWarningMessage('No remote paths are configured, there is nothing to compare with.');
+                return;
+            }
+            await updateStatus(report);
+
+            let uri = await vscode.window.showSaveDialog({filters: {'JSON': ['json']}, saveLabel: 'Export'});
+            if (uri) {
+                fs.writeFileSync(uri.fsPath, reportToJSON(report), {encoding: 'UTF-8'});
+            }
+        } catch (err) {
+            vscode.window.showErrorMessage('Failed to export environment report.');
+            console.error(err);
+        }
+    });
+
+    let publishDisposable = vscode.commands.registerCommand('fetchUserEnv.publish', async function() {
+        try {
+            await environmentFetcher.publishEnvironment();
+        } catch (err) {
+            if (err instanceof JSONError) {
+                vscode.window.showErrorMessage('Error detected in configuration file: "' + err.filename + '", ' + err.message);
+            }
+            else {
+                vscode.window.showErrorMessage('Failed to publish environment update.');
+            }
+            console.error(err);
+        }
     });
 
     let saveEnvDisposable = vscode.commands.registerCommand('fetchUserEnv.saveEnvironment', async function() {
@@ -66,6 +202,11 @@ export async function activate(context: vscode.ExtensionContext) {
     // Add to a list of disposables which are disposed when this extension is deactivated.
     context.subscriptions.push(fetchExtDisposable,
                                 fetchSetDisposable,
+                                previewDisposable,
+                                restoreDisposable,
+                                reportDisposable,
+                                exportReportDisposable,
+                                publishDisposable,
                                 saveEnvDisposable);
 
     // Clear messages
@@ -87,49 +228,207 @@ export async function activate(context: vscode.ExtensionContext) {
         vscode.window.showErrorMessage('Failed to fetch settings.');
         console.error(err);
     }
+
+    await updateStatus();
+
+    // Optionally keep checking for changes in the background
+    var watcher = new ChangeWatcher(() => environmentFetcher.remoteFingerprint(), async () => {
+        try {
+            await environmentFetcher.fetchInBackground();
+        } catch (err) {
+            console.error(err);
+        }
+
+        await updateStatus();
+    });
+    var watchInterval = config.get('watchInterval');
+    var startWatcher = () => {
+        if ((typeof watchInterval === 'number') && (watchInterval > 0)) {
+            watcher.start(watchInterval * 60 * 1000);
+        }
+        else {
+            watcher.stop();
+        }
+    };
+    startWatcher();
+    context.subscriptions.push({dispose: () => watcher.stop()});
+
+    // Pick up configuration changes, e.g. paths edited by hand, without a reload
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(async event => {
+        if (!event.affectsConfiguration('fetchUserEnv')) {
+            return;
+        }
+
+        let newConfig = vscode.workspace.getConfiguration('fetchUserEnv');
+        if (newConfig.get('watchInterval') !== watchInterval) {
+            watchInterval = newConfig.get('watchInterval');
+            startWatcher();
+        }
+
+        try {
+            if (await environmentFetcher.updateConfiguration(newConfig) && newConfig.get('fetchOnConfigChange') === true) {
+                // Fetch from the new paths straight away
+                await environmentFetcher.fetchExtensions(false);
+                await environmentFetcher.fetchSettings(false);
+            }
+        } catch (err) {
+            console.error(err);
+        }
+
+        await updateStatus();
+    }));
 }
 
 // this method is called when your extension is deactivated
 export function deactivate() {
 }
 
-class FetchEnvironment {
-    private _localExtensionPath : string;
-    private _remoteExtensionPath : string;
-    private _localSettingsPath : string;
-    private _remoteSettingsPath : string;
-    private _remoteDefaultSettingsFilename : string;
-    
-    private _localExtVersions = {};
+class FetchEnvironment extends EnvironmentEngine {
+    private _context : vscode.ExtensionContext;
+
+    constructor(remoteExtPath, remoteSetPath, remoteDefSetFile, context: vscode.ExtensionContext) {
+        super();
+
+        // Git remotes are cloned to the extension's storage, private to the user
+        this._gitCachePath = path.join(context.globalStoragePath, 'git');
 
-    constructor(remoteExtPath, remoteSetPath, remoteDefSetFile) {
         // Set remote paths and filenames
-        this._remoteExtensionPath = remoteExtPath;
-        this._remoteSettingsPath = remoteSetPath;
+        this.setRemoteExtensionPath(remoteExtPath);
+        this.setRemoteSettingsPath(remoteSetPath);
         this._remoteDefaultSettingsFilename = remoteDefSetFile;
 
+        // Snapshots of the local environment are kept with the extension's storage
+        this._context = context;
+        this._backupPath = path.join(context.globalStoragePath, 'backups');
+
         // Set local paths
         this.getLocalPaths();
     }
 
-    private getLocalPaths() {
-        // Path of installed extensions
-        this._localExtensionPath = path.join(os.homedir(), '.vscode', 'extensions');
+    protected config<T>(key: string): T {
+        return vscode.workspace.getConfiguration('fetchUserEnv').get<T>(key);
+    }
 
-        // Path of environment settings
-        if (os.platform() === 'win32') {
-            this._localSettingsPath = path.join(process.env.APPDATA, 'Code', 'User');
+    protected installedExtensions(): LocalExtension[] {
+        // The extensions folder rather than the running extensions, which only change once the window is reloaded
+        return scanExtensions(this._localExtensionPath);
+    }
+
+    protected log(message: string, isError: boolean = false) {
+        if (isError) {
+            console.error(message);
+            fetchMsgChannel.show();
         }
-        if (os.platform() === 'darwin') {
-            this._localSettingsPath = path.join(os.homedir(), 'Library', 'Application Support', 'Code', 'User');
+        else {
+            console.log(message);
+        }
+        fetchMsgChannel.appendLine(message);
+    }
+
+    protected warn(message: string) {
+        vscode.window.showWarningMessage(message);
+    }
+
+    protected showLog() {
+        fetchMsgChannel.show();
+    }
+
+    // Apply changed configuration, true if a remote path or filename changed
+    public async updateConfiguration(config: vscode.WorkspaceConfiguration) {
+        var changed: string[] = [];
+
+        if ((config.get('remoteExtensionPath') || null) !== (this._remoteExtensionPath || null)) {
+            this.setRemoteExtensionPath(config.get('remoteExtensionPath'));
+            changed.push('extensions');
+        }
+        if ((config.get('remoteSettingsPath') || null) !== (this._remoteSettingsPath || null)) {
+            this.setRemoteSettingsPath(config.get('remoteSettingsPath'));
+            changed.push('settings');
         }
-        if (os.platform() === 'linux') {
-            this._localSettingsPath = path.join(os.homedir(), '.config', 'Code', 'User');
+        if ((config.get('remoteDefaultSettingsFilename') || null) !== (this._remoteDefaultSettingsFilename || null)) {
+            this._remoteDefaultSettingsFilename = config.get('remoteDefaultSettingsFilename');
+            changed.push('default settings');
         }
+
+        // Local path overrides may have changed too
+        this.getLocalPaths();
+
+        if (changed.length === 0) {
+            return false;
+        }
+
+        console.log('Configuration changed: ' + changed.join(', '));
+        fetchMsgChannel.appendLine('Configuration changed: ' + changed.join(', '));
+
+        // Check the new paths, without prompting, so mistakes are noticed early
+        var problems: string[] = [];
+        if ((changed.indexOf('extensions') >= 0) && this._remoteExtensionSource) {
+            if (!await this.remoteExtensionsFound()) {
+                problems.push('remote extensions path "' + this._remoteExtensionPath + '"');
+            }
+        }
+        if ((changed.indexOf('settings') >= 0) && this._remoteSettingsSource) {
+            if (!await this.remoteSettingsFound()) {
+                problems.push('remote settings path "' + this._remoteSettingsPath + '"');
+            }
+        }
+        if ((changed.indexOf('default settings') >= 0) && this._remoteSettingsSource && this._remoteDefaultSettingsFilename) {
+            if (!await this._remoteSettingsSource.exists(this._remoteDefaultSettingsFilename)) {
+                problems.push('default settings file "' + this._remoteDefaultSettingsFilename + '"');
+            }
+        }
+
+        for (let problem of problems) {
+            console.error('Cannot access ' + problem);
+            fetchMsgChannel.appendLine('Cannot access ' + problem);
+        }
+        if (problems.length > 0) {
+            vscode.window.showWarningMessage('Cannot access the changed ' + problems.join(', ') + '.');
+        }
+
+        return true;
     }
 
-    private saveRemoteExtensionPath(path : string) {
+    private getLocalPaths() {
+        var context = this._context;
+        var config = vscode.workspace.getConfiguration('fetchUserEnv');
+        var self = vscode.extensions.all.filter(ext => ext.extensionPath === context.extensionPath)[0];
+
+        // Derive the paths from the running product (Insiders, VSCodium, portable mode, custom data directories)
+        var localPaths = resolveLocalPaths({
+            platform: os.platform(),
+            homeDir: os.homedir(),
+            env: process.env,
+            argv: process.argv,
+            product: productInfo(vscode.env.appName, vscode.env.appRoot),
+            extensionId: self ? self.id : null,
+            extensionPath: context.extensionPath,
+            globalStoragePath: context.globalStoragePath,
+            settingsPathOverride: config.get('localSettingsPath'),
+            extensionPathOverride: config.get('localExtensionPath')
+        });
+
+        // Path of installed extensions
+        this._localExtensionPath = localPaths.extensionPath;
+
+        // Path of environment settings
+        this._localSettingsPath = localPaths.settingsPath;
+
+        console.log('Local settings path "' + this._localSettingsPath + '", local extensions path "' + this._localExtensionPath + '"');
+    }
+
+    private setRemoteExtensionPath(path : string) {
         this._remoteExtensionPath = path;
+        this._remoteExtensionSource = path ? createRemoteSource(path, this._gitCachePath) : null;
+    }
+
+    private setRemoteSettingsPath(path : string) {
+        this._remoteSettingsPath = path;
+        this._remoteSettingsSource = path ? createRemoteSource(path, this._gitCachePath) : null;
+    }
+
+    private saveRemoteExtensionPath(path : string) {
+        this.setRemoteExtensionPath(path);
 
         try {
             this.updateSettings({'fetchUserEnv.remoteExtensionPath' : this._remoteExtensionPath});
@@ -140,7 +439,7 @@ class FetchEnvironment {
     }
 
     private saveRemoteSettingsPath(path : string) {
-        this._remoteSettingsPath = path;
+        this.setRemoteSettingsPath(path);
 
         try {
             this.updateSettings({'fetchUserEnv.remoteSettingsPath' : this._remoteSettingsPath});
@@ -242,15 +541,18 @@ class FetchEnvironment {
         return true;
     }
 
-    public async fetchExtensions(prompt: boolean) {
+    public fetchExtensions(prompt: boolean, review: boolean = false) {
+        // Not while the report is built, they share the loaded manifest and extensions.  Waits for the user are unlocked.
+        return this.exclusive(() => this.fetchExtensionsNow(prompt, review));
+    }
+
+    private async fetchExtensionsNow(prompt: boolean, review: boolean) {
         // Path validation
         let unconfirmed = true;
         let reenter = false;
 
-        if (prompt) {
-            // Clear messages
-            fetchMsgChannel.clear();
-        }
+        // Review changes before they are applied?
+        review = review || this.reviewEnabled();
 
         while (unconfirmed) {
             if (!this._remoteExtensionPath || reenter) {
@@ -261,7 +563,7 @@ class FetchEnvironment {
                 reenter = false;
 
                 try {
-                    if (!await this.getRemoteExtensionPath()) {
+                    if (!await this.unlocked(() => this.getRemoteExtensionPath())) {
                         return;
                     }
                 }
@@ -274,7 +576,7 @@ class FetchEnvironment {
                 }
             }
 
-            unconfirmed = !fs.existsSync(this._remoteExtensionPath);
+            unconfirmed = !await this.remoteExtensionsFound();
 
             if (unconfirmed) {
                 // Complain
@@ -282,7 +584,7 @@ class FetchEnvironment {
                 let pathAgainOption = {title: 'Try Again'};
                 let pathReenterOption = {title: 'Reenter Path'};
                 let pathIgnoreOption = {title: 'Ignore', isCloseAffordance: true};
-                if (!await vscode.window.showErrorMessage('Cannot access extensions at specified remote path.', pathAgainOption, pathReenterOption, pathIgnoreOption)
+                if (!await this.unlocked(() => vscode.window.showErrorMessage('Cannot access extensions at specified remote path.', pathAgainOption, pathReenterOption, pathIgnoreOption))
                     .then(choice => {
                         switch (choice) {
                             case pathAgainOption:
@@ -302,13 +604,22 @@ class FetchEnvironment {
             }
         }
 
-        // Paths are valid, continue
-        // Check versions of installed extensions
-        this.getInstalledExtensions();
+        try {
+            // Paths are valid, continue
+            await this.loadExtensionSources();
+        }
+        catch (err) {
+            let message = (err instanceof JSONError) ? 'Error detected in environment manifest: "' + err.filename + '", ' + err.message : err.message;
+            this.log(message, true);
+            vscode.window.showErrorMessage(message);
+            return;
+        }
 
         try {
-            // Compare local versions to remote, and copy newer versions
-            if (this.installNewExtensions()) {
+            // Compare local versions to remote, and find blocked extensions
+            let fetch = await this.fetchExtensionChanges(review);
+
+            if (fetch.results.some(result => result.status === 'succeeded')) {
                 // Extensions were updated, reload/restart required
                 let reloadOption = {title: 'Reload'};
                 vscode.window.showInformationMessage('Extensions updated, please restart Visual Studio Code or reload window', reloadOption)
@@ -318,13 +629,17 @@ class FetchEnvironment {
                         }
                     });
             }
-            else {
+            else if (fetch.changes.length === 0) {
                 if (prompt) {
                     vscode.window.showInformationMessage('Extensions are up to date');
                 }
                 console.log('No updated extensions found.');
                 fetchMsgChannel.appendLine('No updated extensions found.');
             }
+            else if (fetch.results.length === 0) {
+                console.log('Extension changes skipped.');
+                fetchMsgChannel.appendLine('Extension changes skipped.');
+            }
         }
         catch (err) {
             if (err instanceof JSONError) {
@@ -340,15 +655,18 @@ class FetchEnvironment {
         return;
     }
 
-    public async fetchSettings(prompt: boolean) {
+    public fetchSettings(prompt: boolean, review: boolean = false) {
+        // Not while the report is built, they share the loaded manifest and extensions.  Waits for the user are unlocked.
+        return this.exclusive(() => this.fetchSettingsNow(prompt, review));
+    }
+
+    private async fetchSettingsNow(prompt: boolean, review: boolean) {
         // Path validation
         let unconfirmed = true;
         let reenter = false;
 
-        if (prompt) {
-            // Clear messages
-            fetchMsgChannel.clear();
-        }
+        // Review changes before they are applied?
+        review = review || this.reviewEnabled();
 
         while (unconfirmed) {
             if (!this._remoteSettingsPath || reenter) {
@@ -359,7 +677,7 @@ class FetchEnvironment {
                 reenter = false;
 
                 try {
-                    if (!await this.getRemoteSettingsPath()) {
+                    if (!await this.unlocked(() => this.getRemoteSettingsPath())) {
                         return;
                     }
                 }
@@ -372,15 +690,15 @@ class FetchEnvironment {
                 }
             }
 
-            unconfirmed = !fs.existsSync(path.join(this._remoteSettingsPath, 'settings.json'));
+            unconfirmed = !await this.remoteSettingsFound();
 
             if (unconfirmed) {
                 // Complain
-                console.error('"settings.json" does not exist in specified remote settings path "' + this._remoteSettingsPath + '"');
+                console.error('Neither "' + MANIFEST_FILENAME + '" nor "settings.json" exist in specified remote settings path "' + this._remoteSettingsPath + '"');
                 let pathAgainOption = {title: 'Try Again'};
                 let pathReenterOption = {title: 'Reenter Path'};
                 let pathIgnoreOption = {title: 'Ignore', isCloseAffordance: true};
-                if (!await vscode.window.showErrorMessage('Cannot access settings at specified remote path.', pathAgainOption, pathReenterOption, pathIgnoreOption)
+                if (!await this.unlocked(() => vscode.window.showErrorMessage('Cannot access settings at specified remote path.', pathAgainOption, pathReenterOption, pathIgnoreOption))
                     .then(choice => {
                         switch (choice) {
                             case pathAgainOption:
@@ -400,12 +718,24 @@ class FetchEnvironment {
             }
         }
 
+        try {
+            // Load the environment manifest, if the remote provides one, and the settings layers
+            await this.loadSettingsSources();
+        }
+        catch (err) {
+            let message = (err instanceof JSONError) ? 'Error detected in environment manifest: "' + err.filename + '", ' + err.message : err.message;
+            console.error(message);
+            vscode.window.showErrorMessage(message);
+            return;
+        }
+
         unconfirmed = true;
         reenter = false;
         let disable = false;
         while (unconfirmed)
         {
-            unconfirmed = this._remoteDefaultSettingsFilename && (!fs.existsSync(path.join(this._remoteSettingsPath, this._remoteDefaultSettingsFilename)));
+            // The default settings filename is ignored when the manifest specifies the files
+            unconfirmed = !this._manifest && this._remoteDefaultSettingsFilename && (!await this._remoteSettingsSource.exists(this._remoteDefaultSettingsFilename));
 
             if (unconfirmed) {
                 // Complain
@@ -414,7 +744,7 @@ class FetchEnvironment {
                 let defSetReenterOption = {title: 'Reenter Filename'};
                 let defSetIgnoreOption = {title: 'Ignore', isCloseAffordance: true};
                 let defSetDisableOption = {title: 'Disable'};
-                await vscode.window.showErrorMessage('Cannot access default settings at specified remote path.', defSetAgainOption, defSetReenterOption, defSetIgnoreOption, defSetDisableOption)
+                await this.unlocked(() => vscode.window.showErrorMessage('Cannot access default settings at specified remote path.', defSetAgainOption, defSetReenterOption, defSetIgnoreOption, defSetDisableOption))
                     .then(choice => {
                         switch (choice) {
                             case defSetAgainOption:
@@ -444,7 +774,7 @@ class FetchEnvironment {
 
                 try {
                     // The default settings are optional, no need to quit if filename entry is aborted.
-                    await this.getDefaultSettingsFilename();
+                    await this.unlocked(() => this.getDefaultSettingsFilename());
                 }
                 catch (err) {
                     if (err instanceof JSONError) {
@@ -472,10 +802,11 @@ class FetchEnvironment {
             }
         }
 
-        // Paths are valid, continue
         try {
-            // Compare local settings to remote, update as required
-            if (this.compareSettings()) {
+            // Paths are valid, compare local settings and other user files to remote
+            let fetch = await this.fetchSettingChanges(review);
+
+            if ((fetch.appliedSettings.length > 0) || (fetch.appliedFiles.length > 0)) {
                 // Settings were updated, reload/restart required
                 let reloadOption = {title: 'Reload'};
                 vscode.window.showInformationMessage('Settings updated, please restart Visual Studio Code or reload window', reloadOption)
@@ -485,6 +816,10 @@ class FetchEnvironment {
                         }
                     });
             }
+            else if ((fetch.settings.length > 0) || (fetch.files.length > 0)) {
+                console.log('Settings changes skipped.');
+                fetchMsgChannel.appendLine('Settings changes skipped.');
+            }
             else {
                 if (prompt) {
                     vscode.window.showInformationMessage('Settings are up to date');
@@ -507,11 +842,92 @@ class FetchEnvironment {
         return;
     }
 
-    public async saveEnvironment() {
+    // Refreshing a remote location rewrites its cached state, e.g. the git checkout, so never during a fetch or report
+    public remoteFingerprint() {
+        return this.exclusive(async () => {
+            var fingerprints: string[] = [];
+            fingerprints.push(this._remoteExtensionSource ? await this._remoteExtensionSource.fingerprint() : '');
+            fingerprints.push(this._remoteSettingsSource ? await this._remoteSettingsSource.fingerprint([SNIPPETS_FOLDER]) : '');
+
+            // Settings layers with their own location
+            for (let layerSource of this.getLayerSources().filter(item => !!item.layer.location)) {
+                fingerprints.push(await layerSource.source.fingerprint());
+            }
+            return fingerprints.join(':');
+        });
+    }
+
+    // Called by the background watcher once the remote content has changed
+    public async fetchInBackground() {
+        console.log('Remote environment changed');
+        fetchMsgChannel.appendLine('Remote environment changed');
+
+        // Offer the pending changes for review unless they are to be applied straight away
+        var review = vscode.workspace.getConfiguration('fetchUserEnv').get('watchAction') !== 'apply';
+        await this.fetchExtensions(false, review);
+        await this.fetchSettings(false, review);
+    }
+
+    public async restoreEnvironment() {
+        var store = this.backupStore();
+        var snapshots = store.list();
+
+        if (snapshots.length === 0) {
+            vscode.window.showInformationMessage('No previous environment to restore.');
+            return;
+        }
+
+        var items = snapshots.map(snapshot => {
+            let count = snapshot.extensionFolders.length;
+            let files = snapshot.files.map(file => path.basename(file.path));
+            let details = [];
+            if (files.length > 0) {
+                details.push('Restores ' + files.join(', '));
+            }
+            if (count > 0) {
+                details.push('Removes ' + count + ' extension(s) installed by this and later fetches');
+            }
+            if (snapshot.replacedFolders && (snapshot.replacedFolders.length > 0)) {
+                details.push('Brings back ' + snapshot.replacedFolders.length + ' replaced extension(s)');
+            }
+            return {label: new Date(snapshot.created).toLocaleString(),
+                    description: snapshot.description,
+                    detail: details.join(', '),
+                    snapshot: snapshot};
+        });
+
+        var selected = await vscode.window.showQuickPick(items, {ignoreFocusOut: true,
+                                                                 placeHolder: 'Select the environment to restore, later changes are undone'});
+        if (!selected) {
+            return;
+        }
+
+        var undone = await store.restore(selected.snapshot);
+
+        fetchMsgChannel.show();
+        fetchMsgChannel.appendLine('Restored environment from ' + selected.label);
+        for (let snapshot of undone) {
+            for (let folder of snapshot.extensionFolders) {
+                console.log('Removed extension folder "' + folder + '"');
+                fetchMsgChannel.appendLine('Removed extension folder "' + folder + '"');
+            }
+        }
+
+        let reloadOption = {title: 'Reload'};
+        vscode.window.showInformationMessage('Environment restored, please restart Visual Studio Code or reload window', reloadOption)
+            .then(choice => {
+                if (choice === reloadOption) {
+                    vscode.commands.executeCommand('workbench.action.reloadWindow');
+                }
+            });
+    }
+
+    // Make sure the remote locations are configured and can be written to
+    private async prepareRemotes(action: string) {
         try {
             if (!this._remoteExtensionPath) {
                 if (!await this.getRemoteExtensionPath()) {
-                    return;
+                    return false;
                 }
             }
         }
@@ -519,14 +935,14 @@ class FetchEnvironment {
             if (err instanceof JSONError) {
                 let message = 'Error detected in configuration file: "' + err.filename + '", ' + err.message;
                 vscode.window.showErrorMessage(message);
-                return;
+                return false;
             }
         }
 
         try {
             if (!this._remoteSettingsPath) {
                 if (!await this.getRemoteSettingsPath()){
-                    return;
+                    return false;
                 }
             }
         }
@@ -534,59 +950,38 @@ class FetchEnvironment {
             if (err instanceof JSONError) {
                 let message = 'Error detected in configuration file: "' + err.filename + '", ' + err.message;
                 vscode.window.showErrorMessage(message);
-                return;
+                return false;
             }
         }
 
-        if (!fs.existsSync(this._remoteSettingsPath)) {
-            // Path does not yet exist, create it
-            fse.ensureDir(this._remoteSettingsPath, function (err) {
-                if (err) return console.error(err);
-            });
-        }
-
-        if (!fs.existsSync(this._remoteExtensionPath)) {
-            // Path does not yet exist, create it
-            fse.ensureDir(this._remoteExtensionPath, function (err) {
-                if (err) return console.error(err);
-            });
+        if (!this._remoteSettingsSource.writable || !this._remoteExtensionSource.writable) {
+            vscode.window.showErrorMessage('Cannot ' + action + ', remote locations must be file system paths.');
+            return false;
         }
 
-        var settingsPath: string;
-        var extensionPath: string;
-
-        if (os.platform() === 'win32') {
-            // Windows is case preserving, case insensitive
-            // Convert to lowercase
-            settingsPath = String(this._remoteSettingsPath).toLowerCase();
-            extensionPath = String(this._remoteExtensionPath).toLowerCase();
-        }
-        else {
-            settingsPath = String(this._remoteSettingsPath);
-            extensionPath = String(this._remoteExtensionPath);
-        }
+        // Create the paths if they do not yet exist
+        await this._remoteSettingsSource.ensure();
+        await this._remoteExtensionSource.ensure();
 
-        // Are the remote paths empty?  Count the number of items.
-        var items = fs.readdirSync(settingsPath).length;
-        items += fs.readdirSync(extensionPath).length;
+        return true;
+    }
 
-        // Check if paths are nested.
-        if ((settingsPath !== extensionPath)
-            && (settingsPath.startsWith(extensionPath)
-                || extensionPath.startsWith(settingsPath)))
-        {
-            // Nested, reduce item count.
-            items -= 1;
+    public async saveEnvironment() {
+        if (!await this.prepareRemotes('save environment')) {
+            return;
         }
 
-        if (items > 0) {
+        if (!await this.remotesEmpty()) {
             vscode.window.showErrorMessage('Cannot save environment, remote paths are not empty.');
             return;
         }
 
         try {
             // Copy settings and extensions to remote locations
-            this.copyEnvToRemote();
+            if (!await this.copyEnvToRemote()) {
+                // Cancelled by the user
+                return;
+            }
         }
         catch (err) {
             if (err instanceof JSONError) {
@@ -615,246 +1010,300 @@ class FetchEnvironment {
         return;
     }
 
-    private compareSettings() {
-        var updatedDefault;
-        var updatedRemote;
-
-        try {
-            updatedDefault = this.compareDefaultSettings();
-            updatedRemote = this.compareRemoteSettings();
-        }
-        catch (err) {
-            throw err;
+    public async publishEnvironment() {
+        if (!await this.prepareRemotes('publish environment')) {
+            return;
         }
 
-        return updatedDefault || updatedRemote;
-    }
-
-    private compareDefaultSettings() {
-        // Has a file containing optional defaults been configured?
-        if (!this._remoteDefaultSettingsFilename) {
-            // Nope, nothing to do.  We're done here.
-            return false;
+        // Compare the local environment with the remote locations
+        var localSettingsFile = path.join(this._localSettingsPath, 'settings.json');
+        var localSettings = fs.existsSync(localSettingsFile) ? this.readSettingsFile(localSettingsFile) : {};
+        var remoteSettingsJSON = '';
+        if (await this._remoteSettingsSource.exists('settings.json')) {
+            remoteSettingsJSON = (await this._remoteSettingsSource.readFile('settings.json')).toString('utf8');
         }
+        var remoteSettingsFile = this._remoteSettingsSource.resolve('settings.json');
+        var rawSettings = remoteSettingsJSON.trim() ? this.parseSettings(remoteSettingsJSON, remoteSettingsFile, false) : {};
 
+        // The local settings were fetched with the placeholders expanded, the conditional blocks applied and the values merged
+        var remoteSettings = {};
+        var strategies = {};
         try {
-            // Read default settings file
-            var defaultSettings = this.readSettingsFile(path.join(this._remoteSettingsPath, this._remoteDefaultSettingsFilename));
+            remoteSettings = await this.exclusive(async () => {
+                this._variables = await this.loadVariables();
+                return remoteSettingsJSON.trim() ? this.parseRemoteSettings(remoteSettingsJSON, remoteSettingsFile) : {};
+            });
+            let manifest = await this.loadManifest();
+            strategies = manifest ? manifest.mergeStrategies : {};
         }
         catch (err) {
-            throw err;
+            let message = (err instanceof JSONError) ? 'Error detected in remote settings: "' + err.filename + '", ' + err.message : err.message;
+            vscode.window.showErrorMessage(message);
+            return;
         }
 
-        try {
-            // Read local settings file (therefore ignoring the workspace) so default settings can be compared
-            var localSettings = this.readSettingsFile(path.join(this._localSettingsPath, 'settings.json'));
-        }
-        catch (err) {
-            throw err;
-        }
+        var localExtensions = this.userExtensions();
+        var remoteExtensions = await this.findRemoteExtensions();
 
-        var updated: boolean = false;
-        var newSettings = {};
+        var items = diffSettings(localSettings, remoteSettings, strategies, templatedSettings(rawSettings)).concat(
+            diffExtensions(localExtensions.map(ext => ({id: ext.id, version: ext.version})), remoteExtensions));
 
-        for (let prop in defaultSettings) {
-            // Only add settings that are missing, ignore existing settings even if they are different
-            if (!localSettings.hasOwnProperty(prop)) {
-                newSettings[prop] = defaultSettings[prop];
-                updated = true;
-            }
+        if (items.length === 0) {
+            vscode.window.showInformationMessage('The shared environment is up to date.');
+            return;
         }
 
-        if (updated) {
-            // New settings were found
-            let logStr = JSON.stringify(newSettings, null, 2);
-            console.log('Adding default config parameters');
-            console.log(logStr);
-            fetchMsgChannel.show();
-            fetchMsgChannel.appendLine('Adding default config parameters');
-            fetchMsgChannel.appendLine(logStr);
-
-            try {
-                // Save settings
-                this.updateSettings(newSettings);
+        // Removals, machine-specific items and values templated for each machine are opt-in
+        var excludes = this.publishExcludes();
+        var picks = items.map(item => {
+            let excluded = (item.type === 'setting') ? isExcludedSetting(item.key, excludes.settings) : isExcludedExtension(item.key, excludes.extensions);
+            let pick = this.describePublishItem(item);
+            if (excluded) {
+                pick.description += ' (excluded)';
             }
-            catch (err) {
-                throw err;
+            if (item.templated) {
+                pick.description += ' (replaces the placeholder or conditional value)';
             }
+            return Object.assign(pick, {picked: (item.kind !== 'remove') && !excluded && !item.templated, item: item});
+        });
+        var selected = await vscode.window.showQuickPick(picks, {canPickMany: true,
+                                                                 ignoreFocusOut: true,
+                                                                 placeHolder: 'Select the changes to publish'});
+        if (!selected || (selected.length === 0)) {
+            return;
         }
-        return updated;
-    }
+        var chosen = selected.map(pick => pick.item);
 
-    private compareRemoteSettings() {
-        try {
-            // Read remote settings file
-            var remoteSettings = this.readSettingsFile(path.join(this._remoteSettingsPath, 'settings.json'));
-        }
-        catch (err) {
-            throw err;
-        }
+        fetchMsgChannel.show();
 
-        try {
-            // Read local settings file (therefore ignoring the workspace) so remote settings can be compared
-            var localSettings = this.readSettingsFile(path.join(this._localSettingsPath, 'settings.json'));
-        }
-        catch (err) {
-            throw err;
+        // Edit only the chosen settings, the rest of the remote settings file is kept as it is
+        var settingItems = chosen.filter(item => item.type === 'setting');
+        if (settingItems.length > 0) {
+            let newValues = {};
+            let removedKeys: string[] = [];
+            for (let item of settingItems) {
+                if (item.kind === 'remove') {
+                    removedKeys.push(item.key);
+                }
+                else {
+                    newValues[item.key] = item.value;
+                }
+                fetchMsgChannel.appendLine(((item.kind === 'remove') ? 'Removed setting "' : 'Published setting "') + item.key + '"');
+            }
+            await this._remoteSettingsSource.writeFile('settings.json', editProperties(remoteSettingsJSON, newValues, removedKeys));
         }
 
-        var updated: boolean = false;
-        var newSettings = {};
-
-        for (let prop in remoteSettings) {
-            let base = {};
-            let compare = {};
-            
-            base[prop] = localSettings[prop];
-            compare[prop] = remoteSettings[prop];
-            
-            // Returned object will have no properties if base & compare are the same
-            let res = this.compareUpdate(base, compare);
-            
-            for (let key in res) {
-                if (res.hasOwnProperty(key)) {
-                    // Object has a property therefore a difference was found
-                    // Add to list of required updates
-                    Object.assign(newSettings, res);
-                    updated = true;
-                    
-                    break;
-                }
+        // New versions are added next to the previous versions
+        var extensionItems = chosen.filter(item => item.type === 'extension');
+        var published = localExtensions.filter(ext => extensionItems.some(item => (item.kind !== 'remove') && (item.key === ext.id)));
+        var newDigests = await vscode.window.withProgress({location: vscode.ProgressLocation.Notification, title: 'Publishing extensions'}, progress => {
+            return this.saveExtensions(published, ext => {
+                progress.report({message: ext.id, increment: 100 / published.length});
+            });
+        });
+        for (let ext of published) {
+            fetchMsgChannel.appendLine('Published extension "' + ext.id + '" version ' + ext.version);
+        }
+
+        // Remove the chosen extensions, and the versions beyond the retention limit of the published extensions
+        var removedIds = extensionItems.filter(item => item.kind === 'remove').map(item => item.key.toLowerCase());
+        var publishedIds = published.map(ext => ext.id.toLowerCase());
+        var versions: PublishedExtension[] = remoteExtensions.filter(ext => publishedIds.indexOf(ext.id.toLowerCase()) >= 0);
+        for (let ext of published) {
+            let name = this.savedExtensionName(ext);
+            if (!versions.some(version => version.name === name)) {
+                versions.push({id: ext.id, version: ext.version, name: name});
             }
         }
+        var obsolete: PublishedExtension[] = remoteExtensions.filter(ext => removedIds.indexOf(ext.id.toLowerCase()) >= 0);
+        obsolete = obsolete.concat(expiredVersions(versions, this.publishRetention()));
 
-        if (updated) {
-            // New settings were found
-            let logStr = JSON.stringify(newSettings, null, 2);
-            console.log('Updating config parameters');
-            console.log(logStr);
-            fetchMsgChannel.show();
-            fetchMsgChannel.appendLine('Updating config parameters');
-            fetchMsgChannel.appendLine(logStr);
+        for (let ext of obsolete) {
+            await this._remoteExtensionSource.remove(ext.name);
+            fetchMsgChannel.appendLine('Removed "' + ext.name + '" from the remote extensions path');
+        }
 
-            try {
-                // Save settings
-                this.updateSettings(newSettings);
+        // Keep the digests in step with the extensions
+        if ((Object.keys(newDigests).length > 0) || (obsolete.length > 0)) {
+            let digests: DigestManifest = {extensions: {}};
+            if (await this._remoteExtensionSource.exists(DIGESTS_FILENAME)) {
+                digests = parseDigests((await this._remoteExtensionSource.readFile(DIGESTS_FILENAME)).toString('utf8'));
             }
-            catch (err) {
-                throw err;
+            Object.assign(digests.extensions, newDigests);
+            for (let ext of obsolete) {
+                delete digests.extensions[ext.name];
             }
+            await this._remoteExtensionSource.writeFile(DIGESTS_FILENAME, JSON.stringify(digests, null, 2));
+            fetchMsgChannel.appendLine('Extension digests updated in "' + this._remoteExtensionSource.resolve(DIGESTS_FILENAME) + '", sign them again to enable verification');
         }
-        return updated;
+
+        // Index the content so the remote locations can also be served over HTTP(S)
+        await this._remoteSettingsSource.updateIndex();
+        await this._remoteExtensionSource.updateIndex();
+
+        vscode.window.showInformationMessage('Environment update published.');
+    }
+
+    private publishRetention() {
+        var retention = vscode.workspace.getConfiguration('fetchUserEnv').get('publishRetention');
+        return (typeof retention === 'number') ? retention : 2;
     }
 
-    private compareUpdate(base: {}, compare: {}) {
-        // Quick wins, look for items that have been added or removed
-        // Are there nested items that need to be added?
-        for (let prop in compare) {
-            if ((typeof(base[prop]) === 'undefined')    // Property value within the initial base object is queried from the current environment and consequently may not actually exist.
-                || (!base.hasOwnProperty(prop))) {
-                // No need to keep searching
-                return compare;
+    private describePublishItem(item: PublishItem): vscode.QuickPickItem {
+        if (item.type === 'setting') {
+            switch (item.kind) {
+                case 'add':
+                    return {label: item.key, description: 'Add setting', detail: JSON.stringify(item.value)};
+                case 'change':
+                    return {label: item.key, description: 'Change setting', detail: JSON.stringify(item.value)};
+                default:
+                    return {label: item.key, description: 'Remove setting'};
             }
         }
-        // Are there nested items in the baseline that need to be removed?
-        for (let prop in base) {
-            if ((typeof(compare[prop]) === 'undefined') // Should be redundant but keep for consistency
-                || (!compare.hasOwnProperty(prop))) {
-                // No need to keep searching
-                return compare;
-            }
+
+        switch (item.kind) {
+            case 'add':
+                return {label: item.key, description: 'Add extension version ' + item.version};
+            case 'change':
+                return {label: item.key, description: 'Publish version ' + item.version + ', shared version is ' + item.remoteVersion};
+            default:
+                return {label: item.key, description: 'Remove extension, shared version is ' + item.remoteVersion};
         }
+    }
 
-        // Compare each item
-        for (let prop in compare) {
-            // Check if we need to dig deeper...
-            if (typeof(compare[prop]) === 'object') {
-                let diff = this.compareUpdate(base[prop] , compare[prop]);
+    private reviewEnabled() {
+        return vscode.workspace.getConfiguration('fetchUserEnv').get('reviewChanges') === true;
+    }
 
-                // Check if differences were found
-                for (let key in diff) {
-                    if (diff.hasOwnProperty(key)) {
-                        // A difference was found, return entire object.
-                        // Returning differences only will delete matching items
-                        return compare;
-                    }
-                }
-            }
-            else if (base[prop] !== compare[prop]) {
-                // A difference was found, return entire object.
-                // Returning differences only will delete matching items
-                return compare;
+    protected reviewSettingChanges(changes: SettingChange[]) {
+        return this.selectChanges('Settings', changes, change => this.describeSettingChange(change), selected => this.showSettingsDiff(selected));
+    }
+
+    protected reviewProfileChanges(changes: ProfileChange[]) {
+        return this.selectChanges('User files', changes, change => this.describeProfileChange(change));
+    }
+
+    protected reviewExtensionChanges(changes: ExtensionChange[]) {
+        return this.selectChanges('Extensions', changes, change => this.describeExtensionChange(change));
+    }
+
+    // Only called by the fetches, within exclusive()
+    private async selectChanges<T>(content: string, changes: T[], describe: (change: T) => vscode.QuickPickItem, showDiff: (changes: T[]) => Promise<void> = null) {
+        if (changes.length === 0) {
+            // Nothing to review
+            return changes;
+        }
+
+        let applyOption = {title: 'Apply All'};
+        let selectOption = {title: 'Select...'};
+        let diffOption = {title: 'Show Diff'};
+        let skipOption = {title: 'Skip', isCloseAffordance: true};
+        let options = showDiff ? [applyOption, selectOption, diffOption, skipOption] : [applyOption, selectOption, skipOption];
+
+        while (true) {
+            let choice = await this.unlocked(() => vscode.window.showInformationMessage(content + ': ' + changes.length + ' change(s) to the environment are pending.', ...options));
+
+            switch (choice) {
+                case applyOption:
+                    return changes;
+                case selectOption:
+                    // Everything is selected to start with, untick the changes to skip
+                    let items = changes.map(change => Object.assign(describe(change), {picked: true, change: change}));
+                    let selected = await this.unlocked(() => vscode.window.showQuickPick(items, {canPickMany: true,
+                                                                                             ignoreFocusOut: true,
+                                                                                             placeHolder: 'Select the changes to apply'}));
+                    return selected ? selected.map(item => item.change) : [];
+                case diffOption:
+                    await showDiff(changes);
+                    // Ask again once the diff is open
+                    break;
+                case skipOption:
+                    // Use default case and just exit
+                default:
+                    return [];
             }
         }
-
-        // No differences, return empty object
-        return {};
     }
 
-    private getInstalledExtensions() {
-        // Get all extensions and filter for those installed by the user
-        var localExtensions = vscode.extensions.all.filter(ext => {
-            return ext.extensionPath.startsWith(this._localExtensionPath);
-        });
-        
-        // Query the version of each installed extension
-        for (let ext in localExtensions) {
-            this._localExtVersions[localExtensions[ext].id] = localExtensions[ext].packageJSON['version'];
+    private describeSettingChange(change: SettingChange): vscode.QuickPickItem {
+        switch (change.kind) {
+            case 'rename':
+                return {label: change.key, description: 'Rename to "' + change.newKey + '"'};
+            case 'remove':
+                return {label: change.key, description: 'Remove'};
+            case 'default':
+                return {label: change.key, description: 'Add default', detail: JSON.stringify(change.value)};
+            default:
+                return {label: change.key, description: change.strategy ? 'Merge (' + change.strategy + ')' : 'Update', detail: JSON.stringify(change.value)};
         }
     }
 
-    private installNewExtensions() {
-        // Find all extensions at the remote path
-        // Obtain list of all top level directories
-        var folders = fs.readdirSync(this._remoteExtensionPath).filter(file => fs.statSync(path.join(this._remoteExtensionPath, file)).isDirectory());
+    private describeExtensionChange(change: ExtensionChange): vscode.QuickPickItem {
+        if (change.kind === 'uninstall') {
+            return {label: change.id, description: 'Remove blocked version ' + change.version, detail: change.reason};
+        }
 
-        var updated: boolean = false;
+        let localVersion = this.localExtensionVersion(change.id);
+        return {label: change.id,
+                description: !localVersion ? 'Install version ' + change.version
+                           : ((compareVersions(localVersion, change.version) > 0) ? 'Downgrade from version ' : 'Update from version ') + localVersion + ' to ' + change.version,
+                detail: change.reason};
+    }
 
-        for (let folder in folders) {
-            let packageFile = path.join(this._remoteExtensionPath, folders[folder], 'package.json');
+    private describeProfileChange(change: ProfileChange): vscode.QuickPickItem {
+        return {label: change.label, description: (change.kind === 'add') ? 'Add to ' + change.file : 'Update in ' + change.file};
+    }
 
-            if (!fs.existsSync(packageFile)) {
-                // Not a valid extension directory, skip
-                continue;
-            }
+    private async showSettingsDiff(changes: SettingChange[]) {
+        var localSettingsFile = path.join(this._localSettingsPath, 'settings.json');
+        var localSettingsJSON = fs.existsSync(localSettingsFile) ? fs.readFileSync(localSettingsFile, 'UTF-8') : '';
+        var edits = this.settingEdits(changes);
 
-            // Query extension ID
-            let json_file;
+        // Write the resulting settings to the extension's storage so they can be compared side by side.
+        // Settings may hold tokens, only the user may read them.
+        var diffPath = path.join(this._context.globalStoragePath, 'diff');
+        await ensureDir(diffPath);
 
-            try {
-                json_file = JSON.parse(fs.readFileSync(packageFile, 'UTF-8'));
-            }
-            catch (err) {
-                throw new JSONError(err.message, packageFile);
-            }
+        var resultFile = path.join(diffPath, 'settings.json');
+        fs.writeFileSync(resultFile, editProperties(localSettingsJSON, edits.newSettings, edits.removedKeys), {encoding: 'UTF-8', mode: 0o600});
 
-            let id = json_file['publisher'] + '.' + json_file['name'];
-            let version = json_file['version'];
+        var originalFile = localSettingsFile;
+        if (!fs.existsSync(originalFile)) {
+            originalFile = path.join(diffPath, 'settings.original.json');
+            fs.writeFileSync(originalFile, '', {encoding: 'UTF-8', mode: 0o600});
+        }
 
-            if (typeof this._localExtVersions[id] !== 'undefined') {
-                if (compareVer(this._localExtVersions[id], version) >= 0) {
-                    // Correct version, move along
-                    continue;
-                }
-            }
+        await vscode.commands.executeCommand('vscode.diff', vscode.Uri.file(originalFile), vscode.Uri.file(resultFile), 'settings.json (local ↔ fetched)');
+    }
 
-            // Missing or old version, copy from remote source.
-            // No need to remove old version, VS Code will do that automatically upon restart
-            console.log('Updating extension "' + id + '" to version ' + version);
-            fetchMsgChannel.show();
-            fetchMsgChannel.appendLine('Updating extension "' + id + '" to version ' + version);
-            let srcPath = path.join(this._remoteExtensionPath, folders[folder]);
-            let dstPath = path.join(this._localExtensionPath, id + '-' + version);
-            fse.copy(srcPath, dstPath, function (err) {
-                if (err) return console.error(err);
+    protected async installExtensionChanges(changes: ExtensionChange[]) {
+        var results: TaskResult<ExtensionChange>[] = [];
+
+        await vscode.window.withProgress({location: vscode.ProgressLocation.Notification, title: 'Fetching extensions', cancellable: true}, (progress, token) => {
+            return this.applyExtensionChanges(changes, change => {
+                progress.report({message: change.id, increment: 100 / changes.length});
+            }, () => token.isCancellationRequested).then(done => {
+                results = done;
             });
-            updated = true;
+        });
+
+        // Summarise what actually happened
+        this.showLog();
+        this.logExtensionResults(results);
+
+        var failed = results.filter(result => result.status === 'failed').length;
+        var cancelled = results.filter(result => result.status === 'cancelled').length;
+        if (failed > 0) {
+            vscode.window.showErrorMessage(failed + ' extension change(s) failed.  See output for details.');
+        }
+        if (cancelled > 0) {
+            vscode.window.showWarningMessage(cancelled + ' extension change(s) cancelled.');
         }
 
-        return updated;
+        return results;
     }
 
-    private copyEnvToRemote() {
+    private async copyEnvToRemote() {
         try {
             // Copy settings
             // Read and filter local settings file so it can be saved
@@ -864,75 +1313,56 @@ class FetchEnvironment {
             throw err;
         }
 
-        // Save to remote
-        var remoteSettingsJSON = JSON.stringify(localSettings, null, 2);
-        fs.writeFileSync(path.join(this._remoteSettingsPath, 'settings.json'), remoteSettingsJSON, {encoding: 'UTF-8'});
-
-        // Copy extensions
-        // Get all extensions and filter for those installed by the user
-        var localExtensions = vscode.extensions.all.filter(ext => {
-            return ext.extensionPath.startsWith(this._localExtensionPath);
-        });
+        // Leave out machine-specific settings and extensions
+        var selection = await this.selectForSave(localSettings, this.userExtensions());
+        if (!selection) {
+            return false;
+        }
 
-        // Filter out this extension!
-        localExtensions = localExtensions.filter(ext => {
-            return !ext.extensionPath.includes('fetch-user-environment');
+        await vscode.window.withProgress({location: vscode.ProgressLocation.Notification, title: 'Saving environment'}, progress => {
+            return this.writeEnvironment(selection.settings, selection.extensions, ext => {
+                progress.report({message: ext.id, increment: 100 / selection.extensions.length});
+            });
         });
 
-        for (let ext in localExtensions) {
-            let srcPath = localExtensions[ext].extensionPath;
-            let dstPath = path.join(this._remoteExtensionPath, path.basename(srcPath));
-            fse.copy(srcPath, dstPath, function (err) {
-                if (err) return console.error(err);
-            });
-        }
+        return true;
     }
 
-    private readSettingsFile(filePath: string, filter: boolean = true) {
-        try {
-            // Read settings file
-            // Need to strip comments out...
-            var settingsFile = JSON.parse(stripJsonComments(fs.readFileSync(filePath, 'UTF-8')));
-        }
-        catch (err) {
-            // Invalid JSON data
-            throw new JSONError(err.message, filePath);
+    // Select the settings and extensions to save, the excluded ones are unticked to start with.  Null if cancelled.
+    private async selectForSave(settings: {}, extensions: LocalExtension[]) {
+        var excludes = this.publishExcludes();
+
+        var settingPicks = Object.keys(settings).map(key => {
+            let excluded = isExcludedSetting(key, excludes.settings);
+            return {label: key, description: excluded ? 'Excluded' : '', detail: JSON.stringify(settings[key]), picked: !excluded};
+        });
+        var selectedSettings = await this.pickMany(settingPicks, 'Select the settings to save');
+        if (!selectedSettings) {
+            return null;
         }
 
-        if (filter) {
-            // Filter out settings related to this extension
-            for (let prop in settingsFile) {
-                if (settingsFile.hasOwnProperty(prop) && prop.startsWith('fetchUserEnv')) {
-                    delete settingsFile[prop];
-                }
-            }
+        var extensionPicks = extensions.map(ext => {
+            let excluded = isExcludedExtension(ext.id, excludes.extensions);
+            return {label: ext.id, description: (excluded ? 'Excluded, ' : '') + 'version ' + ext.version, picked: !excluded, extension: ext};
+        });
+        var selectedExtensions = await this.pickMany(extensionPicks, 'Select the extensions to save');
+        if (!selectedExtensions) {
+            return null;
         }
 
-        return settingsFile;
+        var selectedValues = {};
+        for (let pick of selectedSettings) {
+            selectedValues[pick.label] = settings[pick.label];
+        }
+        return {settings: selectedValues, extensions: selectedExtensions.map(pick => pick.extension)};
     }
 
-    private updateSettings(newSettings: {}) {
-        var localSettings = {};
-        var localSettingsFile = path.join(this._localSettingsPath, 'settings.json');
-
-        // Does the local settings file exist yet?
-        if (fs.existsSync(localSettingsFile)) {
-            try {
-                // It exists!  Read local settings file so new settings can be merged and saved
-                // Don't filter out settings related to this extension
-                localSettings = this.readSettingsFile(localSettingsFile, false);
-            }
-            catch (err) {
-                throw err;
-            }
+    private async pickMany<T extends vscode.QuickPickItem>(items: T[], placeHolder: string) {
+        if (items.length === 0) {
+            // Nothing to select from
+            return items;
         }
-
-        // Update cached local settings
-        Object.assign(localSettings, newSettings);
-
-        // Save back to disk (creating the local settings file if required)
-        var localSettingsJSON = JSON.stringify(localSettings, null, 2);
-        fs.writeFileSync(localSettingsFile, localSettingsJSON, {encoding: 'UTF-8'});
+        return await vscode.window.showQuickPick(items, {canPickMany: true, ignoreFocusOut: true, placeHolder: placeHolder});
     }
 
     dispose() {}
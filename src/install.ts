@@ -0,0 +1,89 @@
+'use strict';
+// Modules from Node.js
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Modules from this extension
+import { ensureDir, removePath } from './remoteSource';
+
+// Staging folder within the destination folder, so the final rename stays on the same file system
+const STAGING_FOLDER = '.fetch-staging';
+
+export type TaskStatus = 'succeeded' | 'failed' | 'cancelled';
+
+export interface TaskResult<T> {
+    item: T;
+    status: TaskStatus;
+    error?: any;
+}
+
+// Run a task for each item with at most `limit` tasks at a time.  Items not started once cancelled are reported as such.
+// Results are in the order of the items.
+export async function runLimited<T>(items: T[], limit: number, task: (item: T) => Promise<void>, isCancelled: () => boolean = () => false) {
+    var results: TaskResult<T>[] = new Array(items.length);
+    var next = 0;
+
+    async function worker() {
+        while (next < items.length) {
+            let index = next++;
+            if (isCancelled()) {
+                results[index] = {item: items[index], status: 'cancelled'};
+                continue;
+            }
+            try {
+                await task(items[index]);
+                results[index] = {item: items[index], status: 'succeeded'};
+            }
+            catch (err) {
+                results[index] = {item: items[index], status: 'failed', error: err};
+            }
+        }
+    }
+
+    var workers: Promise<void>[] = [];
+    for (let count = 0; count < Math.max(1, Math.min(limit, items.length)); count++) {
+        workers.push(worker());
+    }
+    await Promise.all(workers);
+
+    return results;
+}
+
+// Populate and verify a staging folder, then rename it into place.
+// The destination is only replaced once everything is in place, the staging folder is always removed.
+export async function installStaged(dstPath: string, populate: (stagingPath: string) => Promise<void>, verify: (stagingPath: string) => void) {
+    var stagingRoot = path.join(path.dirname(dstPath), STAGING_FOLDER);
+    var stagingPath = path.join(stagingRoot, path.basename(dstPath) + '-' + process.pid + '-' + Date.now());
+
+    await ensureDir(stagingRoot);
+
+    try {
+        await populate(stagingPath);
+        verify(stagingPath);
+
+        if (fs.existsSync(dstPath)) {
+            await removePath(dstPath);
+        }
+        fs.renameSync(stagingPath, dstPath);
+    }
+    finally {
+        await removePath(stagingPath);
+        if (fs.existsSync(stagingRoot) && (fs.readdirSync(stagingRoot).length === 0)) {
+            fs.rmdirSync(stagingRoot);
+        }
+    }
+}
+
+// Check an unpacked extension is the one expected, throws an Error if it isn't
+export function verifyExtensionFolder(dirPath: string, id: string, version: string) {
+    var packageFile = path.join(dirPath, 'package.json');
+    if (!fs.existsSync(packageFile)) {
+        throw new Error('package.json is missing');
+    }
+
+    var packageJSON = JSON.parse(fs.readFileSync(packageFile, 'UTF-8'));
+    var foundId = packageJSON['publisher'] + '.' + packageJSON['name'];
+    if ((foundId.toLowerCase() !== id.toLowerCase()) || (packageJSON['version'] !== version)) {
+        throw new Error('expected "' + id + '" version ' + version + ', found "' + foundId + '" version ' + packageJSON['version']);
+    }
+}
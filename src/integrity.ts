@@ -0,0 +1,76 @@
+'use strict';
+// Modules from Node.js
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// SHA-256 digests of the extensions, stored at the root of the remote extensions location.
+// The detached signature is created with the private key, e.g.
+// openssl dgst -sha256 -sign private.pem -out digests.json.sig digests.json
+export const DIGESTS_FILENAME = 'digests.json';
+export const SIGNATURE_FILENAME = DIGESTS_FILENAME + '.sig';
+
+// Folder or VSIX package name at the remote path mapped to its digest
+export interface DigestManifest {
+    extensions: {[name: string]: string};
+}
+
+export function sha256(data: Buffer | string) {
+    return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+// Digest of a folder, covers the relative path and content of every file
+export function digestDirectory(dirPath: string) {
+    var files: string[] = [];
+
+    function walk(relPath: string) {
+        for (let name of fs.readdirSync(path.join(dirPath, relPath))) {
+            let childPath = relPath ? relPath + '/' + name : name;
+            if (fs.statSync(path.join(dirPath, childPath)).isDirectory()) {
+                walk(childPath);
+            }
+            else {
+                files.push(childPath);
+            }
+        }
+    }
+    walk('');
+
+    var hash = crypto.createHash('sha256');
+    for (let file of files.sort()) {
+        hash.update(file + '\0' + sha256(fs.readFileSync(path.join(dirPath, file))) + '\n');
+    }
+    return hash.digest('hex');
+}
+
+// Parse and validate the digests, throws an Error describing the first problem found
+export function parseDigests(data: string): DigestManifest {
+    let json = JSON.parse(data);
+
+    if (!json || (typeof json !== 'object') || !json['extensions'] || (typeof json['extensions'] !== 'object') || Array.isArray(json['extensions'])) {
+        throw new Error('Digests must map extension names to SHA-256 digests in "extensions"');
+    }
+    for (let name in json['extensions']) {
+        if ((typeof json['extensions'][name] !== 'string') || !/^[0-9a-f]{64}$/i.test(json['extensions'][name])) {
+            throw new Error('Invalid SHA-256 digest for "' + name + '"');
+        }
+    }
+
+    return {extensions: json['extensions']};
+}
+
+// Check the detached signature of the digests against the pinned public key (PEM)
+export function verifySignature(data: Buffer, signature: Buffer, publicKey: string) {
+    try {
+        return crypto.createVerify('SHA256').update(data).verify(publicKey, signature);
+    }
+    catch (err) {
+        // Invalid key or signature format
+        return false;
+    }
+}
+
+// Digest expected for a folder or VSIX package, null if it isn't listed
+export function expectedDigest(digests: DigestManifest, name: string): string {
+    return digests.extensions.hasOwnProperty(name) ? digests.extensions[name].toLowerCase() : null;
+}
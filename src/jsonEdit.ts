@@ -0,0 +1,44 @@
+'use strict';
+// Other libraries from npm
+const jsonc = require('jsonc-parser');
+
+// Detect the formatting of a JSON document so inserted properties blend in
+function formattingOptions(text: string) {
+    let indent = /^([ \t]+)\S/m.exec(text);
+    let insertSpaces = !indent || (indent[1].charAt(0) !== '\t');
+
+    return {
+        insertSpaces: insertSpaces,
+        tabSize: (indent && insertSpaces) ? indent[1].length : 4,
+        eol: (text.indexOf('\r\n') >= 0) ? '\r\n' : '\n'
+    };
+}
+
+// Set and remove top level properties of a JSON document with comments (e.g. settings.json).
+// Only the affected properties are changed, comments and formatting of everything else are kept.
+export function editProperties(text: string, newValues: {}, removedKeys: string[] = []) {
+    if (!text.trim()) {
+        text = '{}';
+    }
+
+    let options = {formattingOptions: formattingOptions(text)};
+
+    for (let key in newValues) {
+        text = jsonc.applyEdits(text, jsonc.modify(text, [key], newValues[key], options));
+    }
+
+    for (let key of removedKeys) {
+        if (!newValues.hasOwnProperty(key)) {
+            text = jsonc.applyEdits(text, jsonc.modify(text, [key], undefined, options));
+        }
+    }
+
+    return text;
+}
+
+// Set a value anywhere within a JSON document with comments, an empty path replaces the whole document.
+// An index of -1 appends to an array.
+export function editValue(text: string, jsonPath: (string | number)[], value) {
+    let options = {formattingOptions: formattingOptions(text)};
+    return jsonc.applyEdits(text, jsonc.modify(text, jsonPath, value, options));
+}
@@ -0,0 +1,136 @@
+'use strict';
+// Modules from Node.js
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Names that differ between Visual Studio Code, Insiders, VSCodium and other builds
+export interface ProductInfo {
+    // Folder of the user data, e.g. "Code" or "Code - Insiders"
+    nameShort: string;
+    // Folder in the home folder holding the extensions, e.g. ".vscode" or ".vscode-insiders"
+    dataFolderName: string;
+}
+
+// Everything known about the running product, anything may be missing
+export interface LocalPathHints {
+    platform: string;
+    homeDir: string;
+    env: {[name: string]: string};
+    // Command line of the process, may include --user-data-dir and --extensions-dir
+    argv: string[];
+    product: ProductInfo;
+    // Install location and ID of this extension
+    extensionId?: string;
+    extensionPath?: string;
+    // Global storage of this extension, within the user data folder
+    globalStoragePath?: string;
+    // Set explicitly by the user, these win
+    settingsPathOverride?: string;
+    extensionPathOverride?: string;
+}
+
+export interface LocalPaths {
+    // Folder holding settings.json
+    settingsPath: string;
+    // Folder holding the installed extensions
+    extensionPath: string;
+}
+
+// Read the product names from the product.json of the application, or guess them from the application name.
+// The application root is null outside of the editor, e.g. on the command line.
+export function productInfo(appName: string, appRoot: string): ProductInfo {
+    try {
+        let product = appRoot ? JSON.parse(fs.readFileSync(path.join(appRoot, 'product.json'), 'UTF-8')) : {};
+        if (product['nameShort'] && product['dataFolderName']) {
+            return {nameShort: product['nameShort'], dataFolderName: product['dataFolderName']};
+        }
+    }
+    catch (err) {
+        // No product.json, e.g. outside of Visual Studio Code
+    }
+
+    let name = appName || '';
+    let insiders = /insiders/i.test(name);
+    if (/vscodium/i.test(name)) {
+        return insiders ? {nameShort: 'VSCodium - Insiders', dataFolderName: '.vscodium-insiders'}
+                        : {nameShort: 'VSCodium', dataFolderName: '.vscode-oss'};
+    }
+    if (/oss/i.test(name)) {
+        return {nameShort: 'Code - OSS', dataFolderName: '.vscode-oss'};
+    }
+    return insiders ? {nameShort: 'Code - Insiders', dataFolderName: '.vscode-insiders'}
+                    : {nameShort: 'Code', dataFolderName: '.vscode'};
+}
+
+// Value of a command line option given as "--name value" or "--name=value"
+function argValue(argv: string[], name: string): string {
+    for (let index = 0; index < argv.length; index++) {
+        if (argv[index] === name) {
+            return argv[index + 1] || null;
+        }
+        if (argv[index].startsWith(name + '=')) {
+            return argv[index].substr(name.length + 1);
+        }
+    }
+    return null;
+}
+
+function resolveSettingsPath(hints: LocalPathHints) {
+    if (hints.settingsPathOverride) {
+        return hints.settingsPathOverride;
+    }
+
+    let userDataDir = argValue(hints.argv, '--user-data-dir');
+    if (userDataDir) {
+        return path.join(path.resolve(userDataDir), 'User');
+    }
+
+    if (hints.env['VSCODE_PORTABLE']) {
+        return path.join(hints.env['VSCODE_PORTABLE'], 'user-data', 'User');
+    }
+
+    // The global storage is at <user data>/User/globalStorage/<extension ID>
+    if (hints.globalStoragePath && (path.basename(path.dirname(hints.globalStoragePath)) === 'globalStorage')) {
+        return path.dirname(path.dirname(hints.globalStoragePath));
+    }
+
+    switch (hints.platform) {
+        case 'win32':
+            return path.join(hints.env['APPDATA'] || path.join(hints.homeDir, 'AppData', 'Roaming'), hints.product.nameShort, 'User');
+        case 'darwin':
+            return path.join(hints.homeDir, 'Library', 'Application Support', hints.product.nameShort, 'User');
+        default:
+            return path.join(hints.env['XDG_CONFIG_HOME'] || path.join(hints.homeDir, '.config'), hints.product.nameShort, 'User');
+    }
+}
+
+function resolveExtensionPath(hints: LocalPathHints) {
+    if (hints.extensionPathOverride) {
+        return hints.extensionPathOverride;
+    }
+
+    let extensionsDir = argValue(hints.argv, '--extensions-dir');
+    if (extensionsDir) {
+        return path.resolve(extensionsDir);
+    }
+
+    if (hints.env['VSCODE_PORTABLE']) {
+        return path.join(hints.env['VSCODE_PORTABLE'], 'extensions');
+    }
+
+    // Installed extensions are at <extensions>/<extension ID>-<version>, unlike one under development
+    if (hints.extensionId && hints.extensionPath
+        && path.basename(hints.extensionPath).toLowerCase().startsWith(hints.extensionId.toLowerCase() + '-')) {
+        return path.dirname(hints.extensionPath);
+    }
+
+    return path.join(hints.homeDir, hints.product.dataFolderName, 'extensions');
+}
+
+// Locate the settings and extensions of the running product, most specific hint first
+export function resolveLocalPaths(hints: LocalPathHints): LocalPaths {
+    return {
+        settingsPath: resolveSettingsPath(hints),
+        extensionPath: resolveExtensionPath(hints)
+    };
+}
@@ -0,0 +1,218 @@
+'use strict';
+// Other libraries from npm
+const semver = require('semver');
+const stripJsonComments = require('strip-json-comments');
+
+// Modules from this extension
+import { MergeStrategy, MERGE_STRATEGIES } from './mergeStrategy';
+
+// Manifest describing the environment, stored at the root of the remote settings location
+export const MANIFEST_FILENAME = 'environment.json';
+
+// Action taken for an installed extension that is blocked
+export type BlockPolicy = 'uninstall' | 'warn';
+
+export interface BlockedExtension {
+    id: string;
+    // Blocked versions, all versions if null
+    versions: string;
+    reason: string;
+    policy: BlockPolicy;
+}
+
+export interface EnvironmentManifest {
+    // Required extensions, ID mapped to a semver range
+    extensions: {[id: string]: string};
+    // Extensions that must be exactly this version, even when a newer version is installed
+    pinnedExtensions: {[id: string]: string};
+    // Forbidden or deprecated extensions
+    blockedExtensions: BlockedExtension[];
+    // Settings files to apply, later files take precedence
+    settings: string[];
+    // Settings keys to remove from the local settings
+    removedSettings: string[];
+    // Settings keys to rename in the local settings, old key mapped to new key
+    renamedSettings: {[oldKey: string]: string};
+    // Optional default settings file
+    defaultSettings: string;
+    // How enforced values are combined with local values, settings key or pattern mapped to a strategy
+    mergeStrategies: {[pattern: string]: MergeStrategy};
+}
+
+// Parse and validate a manifest, throws an Error describing the first problem found
+export function parseManifest(data: string): EnvironmentManifest {
+    let json = JSON.parse(stripJsonComments(data));
+
+    if (!json || (typeof json !== 'object') || Array.isArray(json)) {
+        throw new Error('Manifest must be a JSON object');
+    }
+
+    let manifest: EnvironmentManifest = {
+        extensions: {},
+        pinnedExtensions: {},
+        blockedExtensions: [],
+        settings: ['settings.json'],
+        removedSettings: [],
+        renamedSettings: {},
+        defaultSettings: null,
+        mergeStrategies: {}
+    };
+
+    if (typeof json['extensions'] !== 'undefined') {
+        let extensions = json['extensions'];
+        if (!extensions || (typeof extensions !== 'object') || Array.isArray(extensions)) {
+            throw new Error('"extensions" must map extension IDs to version ranges');
+        }
+        for (let id in extensions) {
+            let range = extensions[id];
+            if ((typeof range !== 'string') || (semver.validRange(range) === null)) {
+                throw new Error('Invalid version range "' + range + '" for extension "' + id + '"');
+            }
+            manifest.extensions[id] = range;
+        }
+    }
+
+    if (typeof json['pinnedExtensions'] !== 'undefined') {
+        let pinned = json['pinnedExtensions'];
+        if (!pinned || (typeof pinned !== 'object') || Array.isArray(pinned)) {
+            throw new Error('"pinnedExtensions" must map extension IDs to versions');
+        }
+        for (let id in pinned) {
+            let version = pinned[id];
+            if ((typeof version !== 'string') || (semver.valid(version) === null)) {
+                throw new Error('Invalid pinned version "' + version + '" for extension "' + id + '", expected an exact version');
+            }
+            manifest.pinnedExtensions[id] = version;
+        }
+    }
+
+    if (typeof json['blockedExtensions'] !== 'undefined') {
+        if (!Array.isArray(json['blockedExtensions'])) {
+            throw new Error('"blockedExtensions" must be a list');
+        }
+        for (let entry of json['blockedExtensions']) {
+            manifest.blockedExtensions.push(parseBlockedExtension(entry));
+        }
+    }
+
+    if (typeof json['settings'] !== 'undefined') {
+        let settings = (typeof json['settings'] === 'string') ? [json['settings']] : json['settings'];
+        if (!Array.isArray(settings) || (settings.length === 0) || settings.some(file => (typeof file !== 'string') || !file)) {
+            throw new Error('"settings" must be a filename or a list of filenames');
+        }
+        manifest.settings = settings;
+    }
+
+    if (typeof json['removedSettings'] !== 'undefined') {
+        let removed = json['removedSettings'];
+        if (!Array.isArray(removed) || removed.some(key => (typeof key !== 'string') || !key)) {
+            throw new Error('"removedSettings" must be a list of settings keys');
+        }
+        manifest.removedSettings = removed;
+    }
+
+    if (typeof json['renamedSettings'] !== 'undefined') {
+        let renamed = json['renamedSettings'];
+        if (!renamed || (typeof renamed !== 'object') || Array.isArray(renamed)) {
+            throw new Error('"renamedSettings" must map old settings keys to new settings keys');
+        }
+        for (let oldKey in renamed) {
+            if ((typeof renamed[oldKey] !== 'string') || !renamed[oldKey]) {
+                throw new Error('Invalid new key for renamed setting "' + oldKey + '"');
+            }
+            manifest.renamedSettings[oldKey] = renamed[oldKey];
+        }
+    }
+
+    if ((typeof json['defaultSettings'] !== 'undefined') && (json['defaultSettings'] !== null)) {
+        if ((typeof json['defaultSettings'] !== 'string') || !json['defaultSettings']) {
+            throw new Error('"defaultSettings" must be a filename');
+        }
+        manifest.defaultSettings = json['defaultSettings'];
+    }
+
+    if (typeof json['mergeStrategies'] !== 'undefined') {
+        let strategies = json['mergeStrategies'];
+        if (!strategies || (typeof strategies !== 'object') || Array.isArray(strategies)) {
+            throw new Error('"mergeStrategies" must map settings keys to merge strategies');
+        }
+        for (let pattern in strategies) {
+            if (MERGE_STRATEGIES.indexOf(strategies[pattern]) < 0) {
+                throw new Error('Invalid merge strategy "' + strategies[pattern] + '" for "' + pattern + '", expected one of ' + MERGE_STRATEGIES.join(', '));
+            }
+            manifest.mergeStrategies[pattern] = strategies[pattern];
+        }
+    }
+
+    return manifest;
+}
+
+function parseBlockedExtension(entry): BlockedExtension {
+    if (!entry || (typeof entry !== 'object') || (typeof entry['id'] !== 'string') || !entry['id']) {
+        throw new Error('Blocked extensions must have an "id"');
+    }
+
+    let id = entry['id'];
+    let versions = (typeof entry['versions'] === 'undefined') ? null : entry['versions'];
+    if ((versions !== null) && ((typeof versions !== 'string') || (semver.validRange(versions) === null))) {
+        throw new Error('Invalid version range "' + versions + '" for blocked extension "' + id + '"');
+    }
+
+    let policy = (typeof entry['policy'] === 'undefined') ? 'warn' : entry['policy'];
+    if ((policy !== 'uninstall') && (policy !== 'warn')) {
+        throw new Error('Invalid policy "' + policy + '" for blocked extension "' + id + '", expected "uninstall" or "warn"');
+    }
+
+    return {
+        id: id,
+        versions: versions,
+        reason: (typeof entry['reason'] === 'string') ? entry['reason'] : '',
+        policy: policy
+    };
+}
+
+// Find the entry blocking a version of an extension, null if it isn't blocked
+export function findBlockedExtension(blocked: BlockedExtension[], id: string, version: string): BlockedExtension {
+    for (let entry of blocked) {
+        if (entry.id.toLowerCase() !== id.toLowerCase()) {
+            continue;
+        }
+        if (!entry.versions || (semver.valid(version) && semver.satisfies(version, entry.versions))) {
+            return entry;
+        }
+    }
+    return null;
+}
+
+export interface ExtensionCandidate {
+    id: string;
+    version: string;
+}
+
+// Pinned version of an extension, extension IDs are case insensitive
+export function pinnedVersion(manifest: EnvironmentManifest, id: string): string {
+    for (let pinnedId in manifest.pinnedExtensions) {
+        if (pinnedId.toLowerCase() === id.toLowerCase()) {
+            return manifest.pinnedExtensions[pinnedId];
+        }
+    }
+    return undefined;
+}
+
+// Pick the highest version satisfying the range, null if nothing does
+export function bestCandidate<T extends ExtensionCandidate>(candidates: T[], id: string, range: string): T {
+    let best: T = null;
+
+    for (let candidate of candidates) {
+        if ((candidate.id.toLowerCase() !== id.toLowerCase())
+            || !semver.valid(candidate.version)
+            || !semver.satisfies(candidate.version, range)) {
+            continue;
+        }
+        if (!best || semver.gt(candidate.version, best.version)) {
+            best = candidate;
+        }
+    }
+
+    return best;
+}
@@ -0,0 +1,69 @@
+'use strict';
+// Modules from this extension
+import { jsonEqual } from './profileFiles';
+
+// How an enforced remote value is combined with the local value:
+// * replace - the remote value replaces the local value
+// * deep-merge - objects are merged recursively, remote values win
+// * union - arrays are combined without duplicates
+// * append - remote items missing from the local array are appended, the local items are kept as they are
+// * enforce-keys - only the sub-keys of the remote object are enforced, other local sub-keys are kept
+export type MergeStrategy = 'replace' | 'deep-merge' | 'union' | 'append' | 'enforce-keys';
+
+export const MERGE_STRATEGIES: MergeStrategy[] = ['replace', 'deep-merge', 'union', 'append', 'enforce-keys'];
+
+// Settings keys, extension IDs and hostnames may be glob patterns, * matches any characters and ? a single character
+export function matchKey(pattern: string, key: string, ignoreCase: boolean = false) {
+    let regex = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    return new RegExp('^' + regex + '$', ignoreCase ? 'i' : '').test(key);
+}
+
+// An exact key takes precedence over patterns, then the first matching pattern
+export function findStrategy(strategies: {[pattern: string]: MergeStrategy}, key: string): MergeStrategy {
+    if (strategies.hasOwnProperty(key)) {
+        return strategies[key];
+    }
+    for (let pattern in strategies) {
+        if (matchKey(pattern, key)) {
+            return strategies[pattern];
+        }
+    }
+    return 'replace';
+}
+
+function isObject(value) {
+    return value && (typeof value === 'object') && !Array.isArray(value);
+}
+
+function deepMerge(local: {}, remote: {}) {
+    let result = Object.assign({}, local);
+    for (let key in remote) {
+        result[key] = (isObject(local[key]) && isObject(remote[key])) ? deepMerge(local[key], remote[key]) : remote[key];
+    }
+    return result;
+}
+
+function addMissing(result: any[], items: any[]) {
+    for (let item of items) {
+        if (!result.some(existing => jsonEqual(existing, item))) {
+            result.push(item);
+        }
+    }
+    return result;
+}
+
+// Value to write locally, the remote value replaces a missing local value or a value of a different type
+export function mergeValue(strategy: MergeStrategy, local, remote) {
+    switch (strategy) {
+        case 'deep-merge':
+            return (isObject(local) && isObject(remote)) ? deepMerge(local, remote) : remote;
+        case 'enforce-keys':
+            return (isObject(local) && isObject(remote)) ? Object.assign({}, local, remote) : remote;
+        case 'union':
+            return (Array.isArray(local) && Array.isArray(remote)) ? addMissing(addMissing([], local), remote) : remote;
+        case 'append':
+            return (Array.isArray(local) && Array.isArray(remote)) ? addMissing(local.slice(), remote) : remote;
+        default:
+            return remote;
+    }
+}
@@ -0,0 +1,135 @@
+'use strict';
+// User profile files synchronised alongside settings.json, each with its own merge rule.
+// Remote entries are added or updated, local entries the remote doesn't know about are kept.
+
+export const KEYBINDINGS_FILENAME = 'keybindings.json';
+export const TASKS_FILENAME = 'tasks.json';
+export const SNIPPETS_FOLDER = 'snippets';
+
+// Pending change to a user profile file
+export interface ProfileChange {
+    // Path relative to the user folder, forward slashes
+    file: string;
+    kind: 'add' | 'update';
+    // Human readable description of the entry
+    label: string;
+    // Location of the value within the file, an empty path replaces the whole file and -1 appends to an array
+    jsonPath: (string | number)[];
+    value: any;
+}
+
+export function isSnippetFile(filename: string) {
+    return /\.(json|code-snippets)$/i.test(filename);
+}
+
+export function jsonEqual(a, b): boolean {
+    if ((typeof a !== 'object') || (typeof b !== 'object') || (a === null) || (b === null)) {
+        return a === b;
+    }
+    if (Array.isArray(a) !== Array.isArray(b)) {
+        return false;
+    }
+
+    let keysA = Object.keys(a);
+    let keysB = Object.keys(b);
+    if (keysA.length !== keysB.length) {
+        return false;
+    }
+    return keysA.every(key => b.hasOwnProperty(key) && jsonEqual(a[key], b[key]));
+}
+
+// Keybindings are identified by key, command and when clause
+function keybindingId(keybinding) {
+    let key = String(keybinding['key'] || '').toLowerCase().replace(/\s+/g, ' ').trim();
+    return key + '|' + keybinding['command'] + '|' + (keybinding['when'] || '');
+}
+
+function keybindingLabel(keybinding) {
+    return keybinding['key'] + ': ' + keybinding['command'] + (keybinding['when'] ? ' when ' + keybinding['when'] : '');
+}
+
+export function compareKeybindings(local: any[], remote: any[]): ProfileChange[] {
+    var changes: ProfileChange[] = [];
+
+    if (!Array.isArray(local)) {
+        // No local keybindings yet, take the remote file as is
+        return [{file: KEYBINDINGS_FILENAME, kind: 'add', label: remote.length + ' keybinding(s)', jsonPath: [], value: remote}];
+    }
+
+    var localIds = local.map(keybindingId);
+
+    for (let keybinding of remote) {
+        let index = localIds.indexOf(keybindingId(keybinding));
+
+        if (index < 0) {
+            changes.push({file: KEYBINDINGS_FILENAME, kind: 'add', label: keybindingLabel(keybinding), jsonPath: [-1], value: keybinding});
+        }
+        else if (!jsonEqual(local[index], keybinding)) {
+            // Same binding with different arguments
+            changes.push({file: KEYBINDINGS_FILENAME, kind: 'update', label: keybindingLabel(keybinding), jsonPath: [index], value: keybinding});
+        }
+    }
+
+    return changes;
+}
+
+// Snippets are identified by name within their file
+export function compareSnippets(file: string, local: {}, remote: {}): ProfileChange[] {
+    if (!local) {
+        return [{file: file, kind: 'add', label: file, jsonPath: [], value: remote}];
+    }
+
+    var changes: ProfileChange[] = [];
+
+    for (let name in remote) {
+        if (!local.hasOwnProperty(name)) {
+            changes.push({file: file, kind: 'add', label: file + ': ' + name, jsonPath: [name], value: remote[name]});
+        }
+        else if (!jsonEqual(local[name], remote[name])) {
+            changes.push({file: file, kind: 'update', label: file + ': ' + name, jsonPath: [name], value: remote[name]});
+        }
+    }
+
+    return changes;
+}
+
+// Tasks are identified by label ("taskName" for version 0.1.0 of tasks.json)
+function taskLabel(task) {
+    return task ? (task['label'] || task['taskName']) : undefined;
+}
+
+export function compareTasks(local: {}, remote: {}): ProfileChange[] {
+    if (!local) {
+        return [{file: TASKS_FILENAME, kind: 'add', label: TASKS_FILENAME, jsonPath: [], value: remote}];
+    }
+
+    var changes: ProfileChange[] = [];
+    var remoteTasks = Array.isArray(remote['tasks']) ? remote['tasks'] : [];
+
+    if (!Array.isArray(local['tasks'])) {
+        if (remoteTasks.length > 0) {
+            changes.push({file: TASKS_FILENAME, kind: 'add', label: remoteTasks.length + ' task(s)', jsonPath: ['tasks'], value: remoteTasks});
+        }
+        return changes;
+    }
+
+    var localLabels = local['tasks'].map(taskLabel);
+
+    for (let task of remoteTasks) {
+        let label = taskLabel(task);
+        if (!label) {
+            // Can't be matched with a local task
+            continue;
+        }
+
+        let index = localLabels.indexOf(label);
+        if (index < 0) {
+            changes.push({file: TASKS_FILENAME, kind: 'add', label: label, jsonPath: ['tasks', -1], value: task});
+        }
+        else if (!jsonEqual(local['tasks'][index], task)) {
+            changes.push({file: TASKS_FILENAME, kind: 'update', label: label, jsonPath: ['tasks', index], value: task});
+        }
+    }
+
+    return changes;
+}
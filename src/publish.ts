@@ -0,0 +1,160 @@
+'use strict';
+// Modules from this extension
+import { jsonEqual } from './profileFiles';
+import { MergeStrategy, matchKey, findStrategy, mergeValue } from './mergeStrategy';
+import { CONDITIONAL_SETTINGS_KEY } from './conditions';
+import { compareVersions } from './versions';
+
+// Settings that only make sense on the publisher's machine: zoom, fonts, shells and paths to local tools
+export const DEFAULT_PUBLISH_EXCLUDES = [
+    'window.zoomLevel',
+    'editor.fontSize',
+    'editor.fontFamily',
+    'terminal.integrated.fontSize',
+    'terminal.integrated.fontFamily',
+    'terminal.integrated.shell.*',
+    'terminal.integrated.shellArgs.*',
+    'terminal.integrated.cwd',
+    'git.defaultCloneDirectory',
+    'typescript.tsdk',
+    '*.path',
+    '*Path'
+];
+
+// Difference between the local environment and the shared location, as seen by the publisher
+export interface PublishItem {
+    kind: 'add' | 'change' | 'remove';
+    type: 'setting' | 'extension';
+    // Settings key or extension ID
+    key: string;
+    // Local value of a setting
+    value?: any;
+    // Local version of an extension
+    version?: string;
+    // Newest version of an extension at the shared location
+    remoteVersion?: string;
+    // The shared value is a ${...} placeholder or set by a conditional block, the local value only suits this machine
+    templated?: boolean;
+}
+
+export interface PublishedExtension {
+    id: string;
+    version: string;
+    // Folder or VSIX package at the shared location
+    name: string;
+}
+
+function hasPlaceholder(value): boolean {
+    if (typeof value === 'string') {
+        return /\$\{[^}]*\}/.test(value);
+    }
+    if (value && (typeof value === 'object')) {
+        return Object.keys(value).some(key => hasPlaceholder(value[key]));
+    }
+    return false;
+}
+
+// Keys of the shared settings file, as written, whose value is a placeholder or set by a conditional block
+export function templatedSettings(remote: {}): string[] {
+    var keys = Object.keys(remote).filter(key => (key !== CONDITIONAL_SETTINGS_KEY) && hasPlaceholder(remote[key]));
+    var blocks = Array.isArray(remote[CONDITIONAL_SETTINGS_KEY]) ? remote[CONDITIONAL_SETTINGS_KEY] : [];
+
+    for (let block of blocks) {
+        let settings = (block && (typeof block['settings'] === 'object')) ? block['settings'] : {};
+        for (let key in settings) {
+            if (keys.indexOf(key) < 0) {
+                keys.push(key);
+            }
+        }
+    }
+    return keys;
+}
+
+// The remote settings must be resolved as fetching does, placeholders expanded and conditional blocks applied.
+// A merged local value matches when merging the remote value again changes nothing.
+export function diffSettings(local: {}, remote: {}, strategies: {[pattern: string]: MergeStrategy} = {}, templated: string[] = []): PublishItem[] {
+    var items: PublishItem[] = [];
+    var item = (kind: 'add' | 'change' | 'remove', key: string, value?: any): PublishItem => {
+        let result: PublishItem = {kind: kind, type: 'setting', key: key, value: value};
+        if (templated.indexOf(key) >= 0) {
+            result.templated = true;
+        }
+        return result;
+    };
+
+    for (let key in local) {
+        if (!remote.hasOwnProperty(key)) {
+            items.push(item('add', key, local[key]));
+        }
+        else if (!jsonEqual(local[key], mergeValue(findStrategy(strategies, key), local[key], remote[key]))) {
+            items.push(item('change', key, local[key]));
+        }
+    }
+    for (let key in remote) {
+        if (!local.hasOwnProperty(key)) {
+            items.push(item('remove', key));
+        }
+    }
+
+    return items;
+}
+
+function newestVersions(extensions: {id: string, version: string}[]) {
+    var newest: {[id: string]: {id: string, version: string}} = {};
+    for (let ext of extensions) {
+        let id = ext.id.toLowerCase();
+        if (!newest[id] || (compareVersions(ext.version, newest[id].version) > 0)) {
+            newest[id] = ext;
+        }
+    }
+    return newest;
+}
+
+// Extension IDs are case insensitive, only the newest version at the shared location counts
+export function diffExtensions(local: {id: string, version: string}[], remote: PublishedExtension[]): PublishItem[] {
+    var items: PublishItem[] = [];
+    var remoteNewest = newestVersions(remote);
+    var localIds = local.map(ext => ext.id.toLowerCase());
+
+    for (let ext of local) {
+        let published = remoteNewest[ext.id.toLowerCase()];
+        if (!published) {
+            items.push({kind: 'add', type: 'extension', key: ext.id, version: ext.version});
+        }
+        else if (published.version !== ext.version) {
+            items.push({kind: 'change', type: 'extension', key: ext.id, version: ext.version, remoteVersion: published.version});
+        }
+    }
+    for (let id in remoteNewest) {
+        if (localIds.indexOf(id) < 0) {
+            items.push({kind: 'remove', type: 'extension', key: remoteNewest[id].id, remoteVersion: remoteNewest[id].version});
+        }
+    }
+
+    return items;
+}
+
+// Settings keys and extension IDs may be glob patterns, extension IDs are case insensitive
+export function isExcludedSetting(key: string, patterns: string[]) {
+    return patterns.some(pattern => matchKey(pattern, key));
+}
+
+export function isExcludedExtension(id: string, patterns: string[]) {
+    return patterns.some(pattern => matchKey(pattern, id, true));
+}
+
+// Folders and packages beyond the newest version and the number of previous versions to keep
+export function expiredVersions(extensions: PublishedExtension[], retention: number): PublishedExtension[] {
+    var byId: {[id: string]: PublishedExtension[]} = {};
+    for (let ext of extensions) {
+        let id = ext.id.toLowerCase();
+        byId[id] = (byId[id] || []).concat(ext);
+    }
+
+    var expired: PublishedExtension[] = [];
+    for (let id in byId) {
+        let versions = byId[id].sort((a, b) => compareVersions(b.version, a.version));
+        expired = expired.concat(versions.slice(1 + Math.max(retention, 0)));
+    }
+    return expired;
+}
@@ -0,0 +1,569 @@
+'use strict';
+// Modules from Node.js
+import * as child_process from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+import * as url from 'url';
+
+// Other libraries from npm
+const fse = require('fs-extra');
+
+// File listing the content of a remote location, required to browse a HTTP(S) remote
+export const INDEX_FILENAME = 'index.json';
+
+// Redirects followed before a HTTP(S) request is abandoned
+const MAX_REDIRECTS = 5;
+
+// Milliseconds without a response before a HTTP(S) request is abandoned
+const REQUEST_TIMEOUT = 30000;
+
+export interface RemoteEntry {
+    name: string;
+    isDirectory: boolean;
+}
+
+// Access to the shared location holding the settings or extensions
+export interface RemoteSource {
+    // Path or URL as configured by the user
+    readonly location: string;
+    // Can the environment be saved to this location?
+    readonly writable: boolean;
+    // Version of the content (e.g. a commit hash), null if the location isn't versioned
+    readonly revision: string;
+
+    // Update any cached state so the next access sees the current remote content
+    refresh(): Promise<void>;
+    // Changes whenever the remote content changes, throws if the location is inaccessible.
+    // The content of the files directly within the folders given counts as well, e.g. snippets.
+    fingerprint(folders?: string[]): Promise<string>;
+    // Full path or URL of an item, for messages
+    resolve(relPath: string): string;
+    exists(relPath: string): Promise<boolean>;
+    list(relPath: string): Promise<RemoteEntry[]>;
+    readFile(relPath: string): Promise<Buffer>;
+    // Copy a remote directory to the local file system
+    copyDirectory(relPath: string, dstPath: string): Promise<void>;
+
+    // Write access, used when saving the environment
+    ensure(): Promise<void>;
+    writeFile(relPath: string, data: string | Buffer): Promise<void>;
+    // Copy a local directory to the remote location
+    copyDirectoryFrom(srcPath: string, relPath: string): Promise<void>;
+    // Delete a file or directory
+    remove(relPath: string): Promise<void>;
+    // Regenerate the index so the location can also be served over HTTP(S)
+    updateIndex(): Promise<void>;
+}
+
+export function isHttpLocation(location: string) {
+    return /^https?:\/\//i.test(location);
+}
+
+export function isGitLocation(location: string) {
+    return /^git\+[a-z]+:\/\//i.test(location);
+}
+
+// Git remotes are cloned within the cache folder, a private folder of the user as the clones are trusted
+export function createRemoteSource(location: string, gitCachePath: string = null): RemoteSource {
+    if (isGitLocation(location)) {
+        if (!gitCachePath) {
+            throw new Error('No cache folder for git location "' + location + '"');
+        }
+        return new GitRemoteSource(location, gitCachePath);
+    }
+    if (isHttpLocation(location)) {
+        return new HttpRemoteSource(location);
+    }
+    return new FileSystemRemoteSource(location);
+}
+
+// Promise wrappers for fs-extra
+export function copyPath(srcPath: string, dstPath: string) {
+    return new Promise<void>((resolve, reject) => {
+        fse.copy(srcPath, dstPath, function (err) {
+            if (err) return reject(err);
+            resolve();
+        });
+    });
+}
+
+export function ensureDir(dirPath: string) {
+    return new Promise<void>((resolve, reject) => {
+        fse.ensureDir(dirPath, function (err) {
+            if (err) return reject(err);
+            resolve();
+        });
+    });
+}
+
+export function removePath(dirPath: string) {
+    return new Promise<void>((resolve, reject) => {
+        fse.remove(dirPath, function (err) {
+            if (err) return reject(err);
+            resolve();
+        });
+    });
+}
+
+// Promise wrappers for fs, the watcher polls without blocking the extension host
+function readDir(dirPath: string) {
+    return new Promise<string[]>((resolve, reject) => {
+        fs.readdir(dirPath, (err, names) => err ? reject(err) : resolve(names));
+    });
+}
+
+function statPath(itemPath: string) {
+    return new Promise<fs.Stats>((resolve, reject) => {
+        fs.stat(itemPath, (err, stats) => err ? reject(err) : resolve(stats));
+    });
+}
+
+function readFileData(filePath: string) {
+    return new Promise<Buffer>((resolve, reject) => {
+        fs.readFile(filePath, (err, data) => err ? reject(err) : resolve(data));
+    });
+}
+
+// Relative paths within a remote location always use forward slashes
+function splitRelPath(relPath: string) {
+    return relPath.split(/[\\/]/).filter(part => part.length > 0);
+}
+
+// A path listed by a remote location must stay within it
+function isContainedRelPath(relPath: string) {
+    return !/^([\\/]|[a-z]:)/i.test(relPath) && (splitRelPath(relPath).indexOf('..') < 0);
+}
+
+function readOnly(location: string): Promise<void> {
+    return Promise.reject(new Error('Remote location "' + location + '" is read only'));
+}
+
+class FileSystemRemoteSource implements RemoteSource {
+    readonly writable = true;
+    readonly revision: string = null;
+
+    constructor(readonly location: string) {
+    }
+
+    async refresh() {}
+
+    // The top level entries and the content of the top level files (settings, manifest, digests), as for HTTP(S).
+    // Extension folders and packages are named after their version, so their content isn't read.
+    async fingerprint(folders: string[] = []) {
+        let names: string[];
+        try {
+            names = (await readDir(this.location)).sort();
+        }
+        catch (err) {
+            throw new Error('Location "' + this.location + '" does not exist');
+        }
+
+        let hash = crypto.createHash('sha256');
+        hash.update(names.join('\n'));
+        await this.hashFiles(hash, '', names.filter(item => !/\.vsix$/i.test(item)));
+
+        for (let folder of folders.filter(item => names.indexOf(item) >= 0)) {
+            let folderNames = (await readDir(this.resolve(folder))).sort();
+            hash.update('\0' + folder + '/\0' + folderNames.join('\n'));
+            await this.hashFiles(hash, folder, folderNames);
+        }
+
+        return hash.digest('hex');
+    }
+
+    private async hashFiles(hash: crypto.Hash, folder: string, names: string[]) {
+        for (let name of names) {
+            let itemPath = path.join(this.resolve(folder), name);
+            if ((await statPath(itemPath)).isFile()) {
+                hash.update('\0' + name + '\0' + (await readFileData(itemPath)).toString('base64'));
+            }
+        }
+    }
+
+    resolve(relPath: string) {
+        return path.join(this.location, ...splitRelPath(relPath));
+    }
+
+    async exists(relPath: string) {
+        return fs.existsSync(this.resolve(relPath));
+    }
+
+    async list(relPath: string) {
+        let dirPath = this.resolve(relPath);
+        return fs.readdirSync(dirPath).map(name => {
+            return {name: name, isDirectory: fs.statSync(path.join(dirPath, name)).isDirectory()};
+        });
+    }
+
+    async readFile(relPath: string) {
+        return fs.readFileSync(this.resolve(relPath));
+    }
+
+    copyDirectory(relPath: string, dstPath: string) {
+        return copyPath(this.resolve(relPath), dstPath);
+    }
+
+    ensure() {
+        return ensureDir(this.location);
+    }
+
+    async writeFile(relPath: string, data: string | Buffer) {
+        let filePath = this.resolve(relPath);
+        await ensureDir(path.dirname(filePath));
+        fs.writeFileSync(filePath, data);
+    }
+
+    copyDirectoryFrom(srcPath: string, relPath: string) {
+        return copyPath(srcPath, this.resolve(relPath));
+    }
+
+    remove(relPath: string) {
+        return removePath(this.resolve(relPath));
+    }
+
+    async updateIndex() {
+        let files: string[] = [];
+
+        let walk = (dirPath: string, prefix: string) => {
+            for (let name of fs.readdirSync(dirPath)) {
+                let itemPath = path.join(dirPath, name);
+                if (fs.statSync(itemPath).isDirectory()) {
+                    walk(itemPath, prefix + name + '/');
+                }
+                else if (prefix || name !== INDEX_FILENAME) {
+                    files.push(prefix + name);
+                }
+            }
+        };
+        walk(this.location, '');
+
+        fs.writeFileSync(this.resolve(INDEX_FILENAME), JSON.stringify({files: files}, null, 2), {encoding: 'UTF-8'});
+    }
+}
+
+// Read only access to a location served over HTTP(S).
+// The location must provide an index file listing the relative path of every file that is served.
+class HttpRemoteSource implements RemoteSource {
+    readonly writable = false;
+    readonly revision: string = null;
+    private _baseUrl: string;
+    private _index: Promise<string[]> = null;
+
+    constructor(readonly location: string) {
+        this._baseUrl = location.endsWith('/') ? location : location + '/';
+    }
+
+    async refresh() {
+        this._index = null;
+    }
+
+    // The index and the content of the top level files (settings, manifest, digests).
+    // Extension folders and packages are named after their version, the index covers them.
+    async fingerprint(folders: string[] = []) {
+        await this.refresh();
+
+        let files = await this.getIndex();
+        let hash = crypto.createHash('sha256');
+        hash.update(files.join('\n'));
+
+        let hashed = (item: string) => (item.indexOf('/') < 0) ? !/\.vsix$/i.test(item)
+                                                                : (folders.indexOf(path.posix.dirname(item)) >= 0);
+        for (let file of files.filter(hashed)) {
+            hash.update('\0' + file + '\0' + (await this.readFile(file)).toString('base64'));
+        }
+
+        return hash.digest('hex');
+    }
+
+    resolve(relPath: string) {
+        return url.resolve(this._baseUrl, splitRelPath(relPath).map(encodeURIComponent).join('/'));
+    }
+
+    private getIndex() {
+        if (!this._index) {
+            let indexUrl = this.resolve(INDEX_FILENAME);
+            this._index = download(indexUrl).then(data => {
+                let index;
+                try {
+                    index = JSON.parse(data.toString('utf8'));
+                }
+                catch (err) {
+                    throw new Error('Invalid index "' + indexUrl + '", ' + err.message);
+                }
+                if (!index || !Array.isArray(index.files)) {
+                    throw new Error('Invalid index "' + indexUrl + '", missing list of files');
+                }
+                let outside = index.files.find(file => !isContainedRelPath(String(file)));
+                if (typeof outside !== 'undefined') {
+                    throw new Error('Invalid index "' + indexUrl + '", path "' + outside + '" is outside the location');
+                }
+                return index.files.map(file => splitRelPath(String(file)).join('/'));
+            });
+            // Don't cache failures, the server may be reachable next time
+            this._index.catch(() => this._index = null);
+        }
+        return this._index;
+    }
+
+    async exists(relPath: string) {
+        let files: string[];
+        try {
+            files = await this.getIndex();
+        }
+        catch (err) {
+            return false;
+        }
+
+        let item = splitRelPath(relPath).join('/');
+        if (!item) {
+            // Root of the location
+            return true;
+        }
+        return files.some(file => (file === item) || file.startsWith(item + '/'));
+    }
+
+    async list(relPath: string) {
+        let files = await this.getIndex();
+        let prefix = splitRelPath(relPath).join('/');
+        if (prefix) {
+            prefix += '/';
+        }
+
+        let entries: RemoteEntry[] = [];
+        let seen = {};
+        for (let file of files) {
+            if (!file.startsWith(prefix)) {
+                continue;
+            }
+            let parts = file.substr(prefix.length).split('/');
+            if (!seen.hasOwnProperty(parts[0])) {
+                seen[parts[0]] = true;
+                entries.push({name: parts[0], isDirectory: parts.length > 1});
+            }
+        }
+        return entries;
+    }
+
+    readFile(relPath: string) {
+        return download(this.resolve(relPath));
+    }
+
+    async copyDirectory(relPath: string, dstPath: string) {
+        let files = await this.getIndex();
+        let prefix = splitRelPath(relPath).join('/') + '/';
+        let root = path.resolve(dstPath);
+
+        for (let file of files.filter(item => item.startsWith(prefix))) {
+            let filePath = path.resolve(root, ...file.substr(prefix.length).split('/'));
+            if (!filePath.startsWith(root + path.sep)) {
+                throw new Error('Invalid path "' + file + '" in the index of "' + this.location + '"');
+            }
+            await ensureDir(path.dirname(filePath));
+            fs.writeFileSync(filePath, await this.readFile(file));
+        }
+    }
+
+    ensure() {
+        return readOnly(this.location);
+    }
+
+    writeFile(relPath: string, data: string | Buffer) {
+        return readOnly(this.location);
+    }
+
+    copyDirectoryFrom(srcPath: string, relPath: string) {
+        return readOnly(this.location);
+    }
+
+    remove(relPath: string) {
+        return readOnly(this.location);
+    }
+
+    updateIndex() {
+        return readOnly(this.location);
+    }
+}
+
+// Read only access to a git repository, e.g. "git+ssh://git@host/team/env.git#release:settings".
+// The repository is cloned to a local cache and the branch, tag or commit named after the "#" is checked out
+// (default branch if omitted), optionally followed by ":" and a subdirectory within the repository.
+class GitRemoteSource implements RemoteSource {
+    readonly writable = false;
+    private _revision: string = null;
+    private _repoUrl: string;
+    private _ref: string;
+    private _subdir: string;
+    private _clonePath: string;
+    private _checkout: FileSystemRemoteSource = null;
+
+    constructor(readonly location: string, cachePath: string) {
+        let hashIndex = location.indexOf('#');
+        let fragment = (hashIndex < 0) ? '' : location.substr(hashIndex + 1);
+        let colonIndex = fragment.indexOf(':');
+
+        this._repoUrl = ((hashIndex < 0) ? location : location.substr(0, hashIndex)).replace(/^git\+/i, '');
+        this._ref = (colonIndex < 0) ? fragment : fragment.substr(0, colonIndex);
+        this._subdir = (colonIndex < 0) ? '' : fragment.substr(colonIndex + 1);
+
+        // One clone per repository and ref, so locations sharing both also share the clone
+        let key = crypto.createHash('sha1').update(this._repoUrl + '#' + this._ref).digest('hex');
+        this._clonePath = path.join(cachePath, key);
+    }
+
+    get revision() {
+        return this._revision;
+    }
+
+    // The commit checked out, it covers the content of every folder
+    async fingerprint(folders: string[] = []) {
+        await this.refresh();
+        if (!this._revision) {
+            throw new Error('Git repository "' + this._repoUrl + '" is not accessible');
+        }
+        return this._revision;
+    }
+
+    async refresh() {
+        this._checkout = null;
+        this._revision = null;
+
+        try {
+            if (!fs.existsSync(path.join(this._clonePath, '.git'))) {
+                await removePath(this._clonePath);
+                await ensureDir(path.dirname(this._clonePath));
+                await git(['clone', '--no-checkout', this._repoUrl, this._clonePath]);
+            }
+            else {
+                await git(['remote', 'set-url', 'origin', this._repoUrl], this._clonePath);
+                await git(['fetch', '--prune', '--tags', '--force', 'origin'], this._clonePath);
+            }
+
+            let commit = await this.resolveRef();
+            await git(['checkout', '--force', '--detach', commit], this._clonePath);
+            await git(['clean', '-ffdx'], this._clonePath);
+
+            this._revision = commit;
+            this._checkout = new FileSystemRemoteSource(path.join(this._clonePath, ...splitRelPath(this._subdir)));
+        }
+        catch (err) {
+            // Treated as an inaccessible location
+            console.error(err);
+        }
+    }
+
+    private async resolveRef() {
+        // Prefer the remote branch, then a tag, then anything else git understands (e.g. a commit hash)
+        let candidates = this._ref ? ['refs/remotes/origin/' + this._ref, 'refs/tags/' + this._ref, this._ref]
+                                   : ['refs/remotes/origin/HEAD'];
+
+        for (let candidate of candidates) {
+            try {
+                return await git(['rev-parse', '--verify', '--quiet', candidate + '^{commit}'], this._clonePath);
+            }
+            catch (err) {
+                // Try the next candidate
+            }
+        }
+
+        throw new Error('Cannot find "' + (this._ref || 'HEAD') + '" in git repository "' + this._repoUrl + '"');
+    }
+
+    private checkout() {
+        if (!this._checkout) {
+            throw new Error('Git repository "' + this._repoUrl + '" has not been fetched');
+        }
+        return this._checkout;
+    }
+
+    resolve(relPath: string) {
+        return path.join(this._clonePath, ...splitRelPath(this._subdir), ...splitRelPath(relPath));
+    }
+
+    async exists(relPath: string) {
+        return this._checkout ? this._checkout.exists(relPath) : false;
+    }
+
+    async list(relPath: string) {
+        return this.checkout().list(relPath);
+    }
+
+    async readFile(relPath: string) {
+        return this.checkout().readFile(relPath);
+    }
+
+    async copyDirectory(relPath: string, dstPath: string) {
+        return this.checkout().copyDirectory(relPath, dstPath);
+    }
+
+    ensure() {
+        return readOnly(this.location);
+    }
+
+    writeFile(relPath: string, data: string | Buffer) {
+        return readOnly(this.location);
+    }
+
+    copyDirectoryFrom(srcPath: string, relPath: string) {
+        return readOnly(this.location);
+    }
+
+    remove(relPath: string) {
+        return readOnly(this.location);
+    }
+
+    updateIndex() {
+        return readOnly(this.location);
+    }
+}
+
+function git(args: string[], cwd?: string): Promise<string> {
+    // Never wait for credentials, there is nobody to type them
+    let env = Object.assign({}, process.env, {GIT_TERMINAL_PROMPT: '0'});
+    if (!env.GIT_SSH_COMMAND) {
+        env.GIT_SSH_COMMAND = 'ssh -o BatchMode=yes';
+    }
+
+    return new Promise<string>((resolve, reject) => {
+        child_process.execFile('git', args, {cwd: cwd, env: env}, (err, stdout, stderr) => {
+            if (err) {
+                return reject(new Error('git ' + args[0] + ' failed, ' + String(stderr || err.message).trim()));
+            }
+            resolve(String(stdout).trim());
+        });
+    });
+}
+
+function download(address: string, redirects: number = 0): Promise<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+        let client: any = address.toLowerCase().startsWith('https:') ? https : http;
+
+        let req = client.get(address, (res: http.IncomingMessage) => {
+            if ((res.statusCode >= 300) && (res.statusCode < 400) && res.headers.location) {
+                res.resume();
+                if (redirects >= MAX_REDIRECTS) {
+                    return reject(new Error('Too many redirects requesting "' + address + '"'));
+                }
+                return resolve(download(url.resolve(address, String(res.headers.location)), redirects + 1));
+            }
+
+            if (res.statusCode !== 200) {
+                res.resume();
+                return reject(new Error('Request for "' + address + '" failed with status ' + res.statusCode));
+            }
+
+            let chunks: Buffer[] = [];
+            res.on('data', (chunk: Buffer) => chunks.push(chunk));
+            res.on('end', () => resolve(Buffer.concat(chunks)));
+            res.on('error', reject);
+        });
+        req.on('error', reject);
+        // A server that accepts the connection but never answers would block the fetch forever
+        req.setTimeout(REQUEST_TIMEOUT, () => {
+            req.abort();
+            reject(new Error('Request for "' + address + '" timed out'));
+        });
+    });
+}
@@ -0,0 +1,119 @@
+'use strict';
+
+export type ComplianceStatus = 'compliant' | 'drifted' | 'unreachable';
+
+// Local setting that doesn't match the remote environment
+export interface SettingDrift {
+    kind: 'rename' | 'remove' | 'default' | 'update';
+    key: string;
+    // Local value, undefined when the setting is missing
+    local?: any;
+    // Remote value
+    remote?: any;
+    // Target of a rename
+    newKey?: string;
+    // Settings layer the remote value came from
+    layer?: string;
+}
+
+// Installed extension that doesn't match the remote environment
+export interface ExtensionDrift {
+    kind: 'missing' | 'outdated' | 'pinned' | 'blocked' | 'unsatisfied';
+    id: string;
+    // Installed version, undefined when the extension is missing
+    localVersion?: string;
+    // Version available at the remote path
+    remoteVersion?: string;
+    // Version range or pinned version of a requirement the remote path can't satisfy
+    required?: string;
+    reason?: string;
+}
+
+// Differences between the local and the remote environment, nothing is changed to produce it
+export interface EnvironmentReport {
+    generated: string;
+    settings: SettingDrift[];
+    extensions: ExtensionDrift[];
+    // Remote locations that couldn't be read, and why
+    unreachable: string[];
+}
+
+export function complianceStatus(report: EnvironmentReport): ComplianceStatus {
+    if (report.unreachable.length > 0) {
+        return 'unreachable';
+    }
+    return ((report.settings.length > 0) || (report.extensions.length > 0)) ? 'drifted' : 'compliant';
+}
+
+function formatValue(value: any) {
+    if (typeof value === 'undefined') {
+        return '_not set_';
+    }
+    // Keep the table intact
+    return '`' + JSON.stringify(value).replace(/\|/g, '\\|').replace(/`/g, '\'') + '`';
+}
+
+function describeRemoteSetting(drift: SettingDrift) {
+    switch (drift.kind) {
+        case 'rename':
+            return 'Renamed to `' + drift.newKey + '`';
+        case 'remove':
+            return 'Removed';
+        default:
+            return formatValue(drift.remote) + ((drift.kind === 'default') ? ' (default)' : '');
+    }
+}
+
+function describeRemoteExtension(drift: ExtensionDrift) {
+    if (drift.kind === 'blocked') {
+        return 'Blocked' + (drift.reason ? ': ' + drift.reason.replace(/\|/g, '\\|') : '');
+    }
+    if (drift.kind === 'unsatisfied') {
+        return 'Requires ' + drift.required + (drift.reason ? ', ' + drift.reason : '');
+    }
+    return (drift.kind === 'pinned') ? 'Pinned to ' + drift.remoteVersion : drift.remoteVersion;
+}
+
+export function reportToMarkdown(report: EnvironmentReport) {
+    var status = complianceStatus(report);
+    var lines = ['# Environment Report', '',
+                 'Generated ' + report.generated + ', the environment is **' + status + '**.', ''];
+
+    if (report.unreachable.length > 0) {
+        lines.push('## Unreachable', '');
+        for (let message of report.unreachable) {
+            lines.push('* ' + message);
+        }
+        lines.push('');
+    }
+
+    lines.push('## Settings', '');
+    if (report.settings.length > 0) {
+        lines.push('| Setting | Local | Remote | Layer |', '| --- | --- | --- | --- |');
+        for (let drift of report.settings) {
+            lines.push('| `' + drift.key + '` | ' + formatValue(drift.local) + ' | ' + describeRemoteSetting(drift) + ' | ' + (drift.layer || '') + ' |');
+        }
+    }
+    else {
+        lines.push('No mismatched settings.');
+    }
+    lines.push('');
+
+    lines.push('## Extensions', '');
+    if (report.extensions.length > 0) {
+        lines.push('| Extension | Installed | Remote |', '| --- | --- | --- |');
+        for (let drift of report.extensions) {
+            lines.push('| `' + drift.id + '` | ' + (drift.localVersion || '_not installed_') + ' | ' + describeRemoteExtension(drift) + ' |');
+        }
+    }
+    else {
+        lines.push('No missing or outdated extensions.');
+    }
+    lines.push('');
+
+    return lines.join('\n');
+}
+
+export function reportToJSON(report: EnvironmentReport) {
+    return JSON.stringify(Object.assign({status: complianceStatus(report)}, report), null, 2);
+}
@@ -0,0 +1,81 @@
+'use strict';
+// Settings layers, e.g. organisation < team < sub-team, merged before they are compared with the local settings
+
+// Enforced values are kept up to date, default values are only added when missing
+export type LayerMode = 'enforce' | 'default';
+
+// Layer configured by the user
+export interface SettingsLayer {
+    name: string;
+    // Remote location of the layer, the remote settings path if null
+    location: string;
+    // Settings file at the location
+    file: string;
+    mode: LayerMode;
+}
+
+// Settings read from a layer
+export interface LayerSettings {
+    name: string;
+    mode: LayerMode;
+    settings: {};
+}
+
+// Merged value and the layer it came from
+export interface LayeredValue {
+    value: any;
+    layer: string;
+    mode: LayerMode;
+}
+
+// Validate the configured layers, throws an Error describing the first problem found
+export function parseLayers(json): SettingsLayer[] {
+    if ((typeof json === 'undefined') || (json === null)) {
+        return [];
+    }
+    if (!Array.isArray(json)) {
+        throw new Error('Settings layers must be a list');
+    }
+
+    return json.map((entry, index) => {
+        if (!entry || (typeof entry !== 'object') || (typeof entry['name'] !== 'string') || !entry['name']) {
+            throw new Error('Settings layer ' + (index + 1) + ' must have a "name"');
+        }
+
+        let name = entry['name'];
+        let location = (typeof entry['location'] === 'undefined') ? null : entry['location'];
+        if ((location !== null) && ((typeof location !== 'string') || !location)) {
+            throw new Error('Invalid location for settings layer "' + name + '"');
+        }
+
+        let file = (typeof entry['file'] === 'undefined') ? 'settings.json' : entry['file'];
+        if ((typeof file !== 'string') || !file) {
+            throw new Error('Invalid file for settings layer "' + name + '"');
+        }
+
+        let mode = (typeof entry['mode'] === 'undefined') ? 'enforce' : entry['mode'];
+        if ((mode !== 'enforce') && (mode !== 'default')) {
+            throw new Error('Invalid mode "' + mode + '" for settings layer "' + name + '", expected "enforce" or "default"');
+        }
+
+        return {name: name, location: location, file: file, mode: mode};
+    });
+}
+
+// Merge the layers in order, later layers take precedence.
+// A default value never overrides an enforced value from an earlier layer.
+export function mergeLayers(layers: LayerSettings[]) {
+    var merged: {[key: string]: LayeredValue} = {};
+
+    for (let layer of layers) {
+        for (let key in layer.settings) {
+            let current = merged[key];
+            if (current && (current.mode === 'enforce') && (layer.mode === 'default')) {
+                continue;
+            }
+            merged[key] = {value: layer.settings[key], layer: layer.name, mode: layer.mode};
+        }
+    }
+
+    return merged;
+}
@@ -0,0 +1,125 @@
+'use strict';
+// Modules from Node.js
+import * as os from 'os';
+import * as path from 'path';
+
+// Variables shared by the team, stored at the root of the remote settings location
+export const VARIABLES_FILENAME = 'variables.json';
+
+// Variables resolved by Visual Studio Code itself are left for it to resolve
+const VSCODE_VARIABLES = [
+    'workspaceFolder', 'workspaceFolderBasename', 'workspaceRoot', 'file', 'relativeFile', 'relativeFileDirname',
+    'fileBasename', 'fileBasenameNoExtension', 'fileDirname', 'fileExtname', 'cwd', 'lineNumber', 'selectedText',
+    'execPath', 'defaultBuildTask', 'config', 'command', 'input', '/'
+];
+
+// Values available to ${...} placeholders
+export interface VariableContext {
+    env: {[name: string]: string};
+    userHome: string;
+    platform: string;
+    // Local folder of the user settings
+    userSettingsPath: string;
+    // ${var:NAME}, from the remote variables file
+    variables: {[name: string]: string};
+}
+
+export function defaultContext(userSettingsPath: string, variables: {[name: string]: string} = {}): VariableContext {
+    return {
+        env: process.env,
+        userHome: os.homedir(),
+        platform: os.platform(),
+        userSettingsPath: userSettingsPath,
+        variables: variables
+    };
+}
+
+function lookup(name: string, context: VariableContext): string {
+    let colon = name.indexOf(':');
+    let scope = (colon >= 0) ? name.substr(0, colon) : name;
+    let arg = (colon >= 0) ? name.substr(colon + 1) : null;
+
+    switch (scope) {
+        case 'env':
+            return (arg && context.env.hasOwnProperty(arg)) ? context.env[arg] : undefined;
+        case 'var':
+            return (arg && context.variables.hasOwnProperty(arg)) ? context.variables[arg] : undefined;
+        case 'userHome':
+            return (arg === null) ? context.userHome : undefined;
+        case 'platform':
+            return (arg === null) ? context.platform : undefined;
+        case 'userSettingsPath':
+            return (arg === null) ? context.userSettingsPath : undefined;
+        case 'pathSeparator':
+            return (arg === null) ? path.sep : undefined;
+        default:
+            return (VSCODE_VARIABLES.indexOf(scope) >= 0) ? '${' + name + '}' : undefined;
+    }
+}
+
+// Expand the placeholders in every string within a value, $${...} is kept as a literal ${...}.
+// Names of unresolved variables are added to the list.
+function substitute(value, context: VariableContext, unresolved: string[]) {
+    if (typeof value === 'string') {
+        return value.replace(/(\$?)\$\{([^}]*)\}/g, (match, escape, name) => {
+            if (escape) {
+                return match.substr(1);
+            }
+            let resolved = lookup(name, context);
+            if (typeof resolved === 'undefined') {
+                unresolved.push(match);
+                return match;
+            }
+            return resolved;
+        });
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(item => substitute(item, context, unresolved));
+    }
+
+    if (value && (typeof value === 'object')) {
+        let result = {};
+        for (let key in value) {
+            result[key] = substitute(value[key], context, unresolved);
+        }
+        return result;
+    }
+
+    return value;
+}
+
+// Expand the placeholders in the values of each setting, throws an Error listing the unresolved variables
+export function substituteVariables(settings: {}, context: VariableContext) {
+    var result = {};
+    var problems: string[] = [];
+
+    for (let key in settings) {
+        let unresolved: string[] = [];
+        result[key] = substitute(settings[key], context, unresolved);
+        if (unresolved.length > 0) {
+            problems.push(unresolved.join(', ') + ' in "' + key + '"');
+        }
+    }
+
+    if (problems.length > 0) {
+        throw new Error('Unresolved variables ' + problems.join('; '));
+    }
+
+    return result;
+}
+
+// Parse and validate the remote variables file, the values may use every variable except ${var:...}
+export function parseVariables(json, context: VariableContext): {[name: string]: string} {
+    if (!json || (typeof json !== 'object') || Array.isArray(json)) {
+        throw new Error('Variables must be a JSON object');
+    }
+
+    for (let name in json) {
+        if (typeof json[name] !== 'string') {
+            throw new Error('Variable "' + name + '" must be a string');
+        }
+    }
+
+    return substituteVariables(json, Object.assign({}, context, {variables: {}}));
+}
@@ -0,0 +1,55 @@
+'use strict';
+// Other libraries from npm
+const semver = require('semver');
+
+// What to do with an extension given its local and remote versions
+export interface VersionDecision {
+    install: boolean;
+    // The installed version must be removed, it would be used instead of an older or rebuilt remote version
+    replace: boolean;
+    // Why, for the output channel
+    explanation: string;
+}
+
+// Semantic Versioning 2.0 precedence: a prerelease sorts before its release, identifiers are compared numerically
+// where both are numbers, and build metadata is ignored.  Versions that aren't valid sort before any valid version.
+export function compareVersions(a: string, b: string): number {
+    var validA = semver.valid(a, true);
+    var validB = semver.valid(b, true);
+
+    if (validA && validB) {
+        return semver.compare(validA, validB);
+    }
+    if (validA || validB) {
+        return validA ? 1 : -1;
+    }
+    return (a === b) ? 0 : (a < b) ? -1 : 1;
+}
+
+// Decide between the local and the remote version of an extension.
+// Unpinned extensions are only upgraded, a pinned extension must be exactly the remote version even when that's older.
+export function decideVersion(id: string, localVersion: string, remoteVersion: string, pinned: boolean): VersionDecision {
+    var prefix = 'Extension "' + id + '" ';
+
+    if (typeof localVersion === 'undefined') {
+        return {install: true, replace: false,
+                explanation: prefix + 'is not installed, installing version ' + remoteVersion + (pinned ? ' (pinned)' : '')};
+    }
+
+    var order = compareVersions(localVersion, remoteVersion);
+    var versions = 'installed version ' + localVersion + ', remote version ' + remoteVersion;
+
+    if (pinned) {
+        if (localVersion === remoteVersion) {
+            return {install: false, replace: false, explanation: prefix + versions + ', matches the pinned version'};
+        }
+        return {install: true, replace: order >= 0,
+                explanation: prefix + versions + ', ' + ((order > 0) ? 'downgrading' : (order < 0) ? 'upgrading' : 'reinstalling') + ' to the pinned version'};
+    }
+
+    if (order < 0) {
+        return {install: true, replace: false, explanation: prefix + versions + ', upgrading'};
+    }
+    return {install: false, replace: false,
+            explanation: prefix + versions + ((order > 0) ? ', keeping the newer installed version' : ', up to date')};
+}
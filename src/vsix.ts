@@ -0,0 +1,208 @@
+'use strict';
+// Modules from Node.js
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Other libraries from npm
+const yauzl = require('yauzl');
+const yazl = require('yazl');
+
+// Modules from this extension
+import { ensureDir } from './remoteSource';
+
+export const VSIX_EXTENSION = '.vsix';
+
+// The extension itself is stored below this folder within a VSIX package
+const EXTENSION_FOLDER = 'extension/';
+const PACKAGE_ENTRY = EXTENSION_FOLDER + 'package.json';
+
+// Files VS Code adds to an installed extension which must not be packaged again
+const INSTALL_METADATA = ['.vsixmanifest'];
+
+const CONTENT_TYPES = {
+    '.json': 'application/json',
+    '.js': 'application/javascript',
+    '.md': 'text/markdown',
+    '.txt': 'text/plain',
+    '.png': 'image/png',
+    '.svg': 'image/svg+xml',
+    '.vsixmanifest': 'text/xml'
+};
+
+export interface VsixManifest {
+    id: string;
+    version: string;
+    packageJSON: any;
+}
+
+export function isVsixFile(filename: string) {
+    return filename.toLowerCase().endsWith(VSIX_EXTENSION);
+}
+
+export function vsixFilename(id: string, version: string) {
+    return id + '-' + version + VSIX_EXTENSION;
+}
+
+function openZip(data: Buffer): Promise<any> {
+    return new Promise((resolve, reject) => {
+        yauzl.fromBuffer(data, {lazyEntries: true}, (err, zipFile) => {
+            if (err) return reject(err);
+            resolve(zipFile);
+        });
+    });
+}
+
+// Visit every entry of a zip file, the visitor may return a promise to finish before the next entry is read
+async function readEntries(data: Buffer, visit: (zipFile, entry) => Promise<void> | void) {
+    let zipFile = await openZip(data);
+
+    await new Promise<void>((resolve, reject) => {
+        zipFile.on('entry', entry => {
+            Promise.resolve(visit(zipFile, entry)).then(() => zipFile.readEntry(), err => {
+                zipFile.close();
+                reject(err);
+            });
+        });
+        zipFile.on('end', () => resolve());
+        zipFile.on('error', reject);
+        zipFile.readEntry();
+    });
+}
+
+function readEntry(zipFile, entry): Promise<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+        zipFile.openReadStream(entry, (err, stream) => {
+            if (err) return reject(err);
+
+            let chunks: Buffer[] = [];
+            stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+            stream.on('end', () => resolve(Buffer.concat(chunks)));
+            stream.on('error', reject);
+        });
+    });
+}
+
+// Read the ID and version of the extension from the package.json within a VSIX package
+export async function readVsixManifest(data: Buffer): Promise<VsixManifest> {
+    let packageData: Buffer = null;
+
+    await readEntries(data, async (zipFile, entry) => {
+        if (entry.fileName === PACKAGE_ENTRY) {
+            packageData = await readEntry(zipFile, entry);
+        }
+    });
+
+    if (!packageData) {
+        throw new Error('Missing "' + PACKAGE_ENTRY + '"');
+    }
+
+    // Let parsing errors through so the caller can report the package
+    let packageJSON = JSON.parse(packageData.toString('utf8'));
+
+    return {
+        id: packageJSON['publisher'] + '.' + packageJSON['name'],
+        version: packageJSON['version'],
+        packageJSON: packageJSON
+    };
+}
+
+// Unpack the extension within a VSIX package, the same layout as an extension installed by VS Code
+export async function extractVsix(data: Buffer, dstPath: string) {
+    let root = path.resolve(dstPath);
+
+    await readEntries(data, async (zipFile, entry) => {
+        let fileName: string = entry.fileName;
+
+        if (!fileName.startsWith(EXTENSION_FOLDER) || fileName.endsWith('/')) {
+            // Package metadata or a directory, only files need to be written
+            return;
+        }
+
+        let filePath = path.resolve(root, fileName.substr(EXTENSION_FOLDER.length));
+        if (!filePath.startsWith(root + path.sep)) {
+            throw new Error('Invalid path "' + fileName + '" in VSIX package');
+        }
+
+        let content = await readEntry(zipFile, entry);
+        await ensureDir(path.dirname(filePath));
+        fs.writeFileSync(filePath, content);
+    });
+}
+
+// Package an installed extension as a VSIX file
+export function createVsix(srcPath: string): Promise<Buffer> {
+    let packageJSON = JSON.parse(fs.readFileSync(path.join(srcPath, 'package.json'), 'UTF-8'));
+    let zipFile = new yazl.ZipFile();
+    let types = {'.vsixmanifest': CONTENT_TYPES['.vsixmanifest']};
+
+    let walk = (dirPath: string, prefix: string) => {
+        for (let name of fs.readdirSync(dirPath)) {
+            let itemPath = path.join(dirPath, name);
+            if (fs.statSync(itemPath).isDirectory()) {
+                walk(itemPath, prefix + name + '/');
+            }
+            else if (prefix || INSTALL_METADATA.indexOf(name) < 0) {
+                let ext = path.extname(name).toLowerCase();
+                if (ext) {
+                    types[ext] = CONTENT_TYPES[ext] || 'application/octet-stream';
+                }
+                zipFile.addFile(itemPath, EXTENSION_FOLDER + prefix + name);
+            }
+        }
+    };
+    walk(srcPath, '');
+
+    zipFile.addBuffer(Buffer.from(vsixManifest(packageJSON), 'utf8'), 'extension.vsixmanifest');
+    zipFile.addBuffer(Buffer.from(contentTypes(types), 'utf8'), '[Content_Types].xml');
+    zipFile.end();
+
+    return new Promise<Buffer>((resolve, reject) => {
+        let chunks: Buffer[] = [];
+        zipFile.outputStream.on('data', (chunk: Buffer) => chunks.push(chunk));
+        zipFile.outputStream.on('end', () => resolve(Buffer.concat(chunks)));
+        zipFile.outputStream.on('error', reject);
+    });
+}
+
+function escapeXml(value) {
+    return String(value).replace(/&/g, '&amp;')
+                        .replace(/</g, '&lt;')
+                        .replace(/>/g, '&gt;')
+                        .replace(/"/g, '&quot;')
+                        .replace(/'/g, '&apos;');
+}
+
+function vsixManifest(packageJSON) {
+    let engine = (packageJSON['engines'] && packageJSON['engines']['vscode']) || '*';
+
+    return '<?xml version="1.0" encoding="utf-8"?>\n'
+        + '<PackageManifest Version="2.0.0" xmlns="http://schemas.microsoft.com/developer/vsx-schema/2011" xmlns:d="http://schemas.microsoft.com/developer/vsx-schema-design/2011">\n'
+        + '  <Metadata>\n'
+        + '    <Identity Language="en-US" Id="' + escapeXml(packageJSON['name']) + '" Version="' + escapeXml(packageJSON['version'])
+            + '" Publisher="' + escapeXml(packageJSON['publisher']) + '" />\n'
+        + '    <DisplayName>' + escapeXml(packageJSON['displayName'] || packageJSON['name']) + '</DisplayName>\n'
+        + '    <Description xml:space="preserve">' + escapeXml(packageJSON['description'] || '') + '</Description>\n'
+        + '    <Properties>\n'
+        + '      <Property Id="Microsoft.VisualStudio.Code.Engine" Value="' + escapeXml(engine) + '" />\n'
+        + '    </Properties>\n'
+        + '  </Metadata>\n'
+        + '  <Installation>\n'
+        + '    <InstallationTarget Id="Microsoft.VisualStudio.Code" />\n'
+        + '  </Installation>\n'
+        + '  <Dependencies />\n'
+        + '  <Assets>\n'
+        + '    <Asset Type="Microsoft.VisualStudio.Code.Manifest" Path="' + PACKAGE_ENTRY + '" Addressable="true" />\n'
+        + '  </Assets>\n'
+        + '</PackageManifest>\n';
+}
+
+function contentTypes(types: {}) {
+    let defaults = Object.keys(types).map(ext => {
+        return '  <Default Extension="' + escapeXml(ext) + '" ContentType="' + escapeXml(types[ext]) + '" />\n';
+    });
+
+    return '<?xml version="1.0" encoding="utf-8"?>\n'
+        + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">\n'
+        + defaults.join('')
+        + '</Types>\n';
+}
@@ -0,0 +1,89 @@
+'use strict';
+
+// Polls the remote content and reports changes once they have settled.
+// A new fingerprint must be seen on consecutive polls before it counts, so a flapping share doesn't cause repeated
+// prompts.  Inaccessible locations are ignored, the change is reported when the content is back and different.
+export class ChangeWatcher {
+    // Fingerprint the last change was reported for, undefined until the first poll
+    private _current: string;
+    private _candidate: string = null;
+    private _seen = 0;
+    private _busy = false;
+    private _timer: NodeJS.Timer = null;
+
+    constructor(private _fingerprint: () => Promise<string>,
+                private _onChange: () => Promise<void>,
+                private _settlePolls: number = 2) {
+    }
+
+    public start(intervalMs: number) {
+        this.stop();
+        this._timer = setInterval(() => this.poll(), intervalMs);
+        // Record the current content straight away, it has just been fetched
+        this.poll();
+    }
+
+    public stop() {
+        if (this._timer) {
+            clearInterval(this._timer);
+            this._timer = null;
+        }
+    }
+
+    // Check for a change, true if one was reported
+    public async poll() {
+        if (this._busy) {
+            // Still handling the previous poll
+            return false;
+        }
+        this._busy = true;
+
+        try {
+            let fingerprint: string;
+            try {
+                fingerprint = await this._fingerprint();
+            }
+            catch (err) {
+                // Not accessible at the moment, try again next time
+                return false;
+            }
+
+            if (typeof this._current === 'undefined') {
+                this._current = fingerprint;
+                return false;
+            }
+
+            if (fingerprint === this._current) {
+                // Back to what was reported last, the change didn't settle
+                this._candidate = null;
+                this._seen = 0;
+                return false;
+            }
+
+            if (fingerprint !== this._candidate) {
+                this._candidate = fingerprint;
+                this._seen = 0;
+            }
+            this._seen++;
+
+            if (this._seen < this._settlePolls) {
+                return false;
+            }
+
+            this._current = fingerprint;
+            this._candidate = null;
+            this._seen = 0;
+
+            try {
+                await this._onChange();
+            }
+            catch (err) {
+                console.error(err);
+            }
+            return true;
+        }
+        finally {
+            this._busy = false;
+        }
+    }
+}
@@ -0,0 +1,99 @@
+//
+// Tests for the snapshots of the local environment.
+//
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { BackupStore } from '../src/backup';
+import { removePath } from '../src/remoteSource';
+
+suite("Backup Tests", () => {
+    let tempPath: string;
+    let storePath: string;
+    let settingsFile: string;
+
+    setup(() => {
+        tempPath = fs.mkdtempSync(path.join(os.tmpdir(), 'fetch-backup-'));
+        storePath = path.join(tempPath, 'backups');
+        settingsFile = path.join(tempPath, 'settings.json');
+    });
+
+    teardown(async () => {
+        await removePath(tempPath);
+    });
+
+    test("Restores settings and removes added extension folders", async () => {
+        let store = new BackupStore(storePath, 10);
+        let extFolder = path.join(tempPath, 'pub.ext-1.0.0');
+
+        fs.writeFileSync(settingsFile, '{\n    // Mine\n    "a": 1\n}');
+        let first = await store.create('Fetch settings', [settingsFile], []);
+        fs.writeFileSync(settingsFile, '{"a": 2}');
+
+        let second = await store.create('Fetch extensions', [settingsFile], [extFolder]);
+        fs.mkdirSync(extFolder);
+
+        assert.deepEqual(store.list().map(snapshot => snapshot.id), [second.id, first.id]);
+
+        let undone = await store.restore(first);
+        assert.equal(undone.length, 2);
+        assert.equal(fs.readFileSync(settingsFile, 'utf8'), '{\n    // Mine\n    "a": 1\n}');
+        assert.equal(fs.existsSync(extFolder), false);
+        assert.equal(store.list().length, 0);
+    });
+
+    test("Brings back replaced extension folders", async () => {
+        let store = new BackupStore(storePath, 10);
+        let newerFolder = path.join(tempPath, 'pub.ext-1.1.0');
+        let pinnedFolder = path.join(tempPath, 'pub.ext-1.0.0');
+
+        fs.mkdirSync(newerFolder);
+        fs.writeFileSync(path.join(newerFolder, 'package.json'), '{"version": "1.1.0"}');
+        let snapshot = await store.create('Fetch extensions', [], [pinnedFolder], [newerFolder]);
+        fs.mkdirSync(pinnedFolder);
+        await removePath(newerFolder);
+
+        await store.restore(snapshot);
+        assert.equal(fs.existsSync(pinnedFolder), false);
+        assert.equal(fs.readFileSync(path.join(newerFolder, 'package.json'), 'utf8'), '{"version": "1.1.0"}');
+    });
+
+    test("Removes settings that didn't exist", async () => {
+        let store = new BackupStore(storePath, 10);
+        let snapshot = await store.create('Fetch settings', [settingsFile], []);
+        fs.writeFileSync(settingsFile, '{"a": 1}');
+
+        await store.restore(snapshot);
+        assert.equal(fs.existsSync(settingsFile), false);
+    });
+
+    test("Restores files first changed by a later snapshot", async () => {
+        let store = new BackupStore(storePath, 10);
+        let keybindingsFile = path.join(tempPath, 'keybindings.json');
+
+        fs.writeFileSync(settingsFile, '{"a": 1}');
+        let first = await store.create('Fetch settings', [settingsFile], []);
+        fs.writeFileSync(settingsFile, '{"a": 2}');
+
+        fs.writeFileSync(keybindingsFile, '[]');
+        await store.create('Fetch settings', [settingsFile, keybindingsFile], []);
+        fs.writeFileSync(settingsFile, '{"a": 3}');
+        fs.writeFileSync(keybindingsFile, '[{"key": "f5", "command": "run"}]');
+
+        await store.restore(first);
+        assert.equal(fs.readFileSync(settingsFile, 'utf8'), '{"a": 1}');
+        assert.equal(fs.readFileSync(keybindingsFile, 'utf8'), '[]');
+    });
+
+    test("Keeps the newest snapshots within the retention limit", async () => {
+        let store = new BackupStore(storePath, 2);
+        await store.create('One', [settingsFile], []);
+        await store.create('Two', [settingsFile], []);
+        await store.create('Three', [settingsFile], []);
+
+        assert.deepEqual(store.list().map(snapshot => snapshot.description), ['Three', 'Two']);
+    });
+});
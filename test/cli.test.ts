@@ -0,0 +1,27 @@
+//
+// Tests for the command line options.
+//
+
+import * as assert from 'assert';
+
+import { parseArgs } from '../src/cli';
+
+suite("Command Line Tests", () => {
+
+    test("Reads the command and options", () => {
+        let options = parseArgs(['fetch-extensions', '--remote-extensions', '/share/ext', '--extensions-dir=/agent/ext', '--backup-dir', '/agent/backups', '--dry-run']);
+
+        assert.equal(options.command, 'fetch-extensions');
+        assert.equal(options.remoteExtensionPath, '/share/ext');
+        assert.equal(options.extensionsDir, '/agent/ext');
+        assert.equal(options.backupDir, '/agent/backups');
+        assert.equal(options.dryRun, true);
+    });
+
+    test("Rejects unknown commands and options", () => {
+        assert.throws(() => parseArgs([]), /No command/);
+        assert.throws(() => parseArgs(['fetch']), /Unknown command "fetch"/);
+        assert.throws(() => parseArgs(['check', '--verbose']), /Unknown option "--verbose"/);
+        assert.throws(() => parseArgs(['check', '--remote-settings']), /Missing value/);
+    });
+});
@@ -0,0 +1,41 @@
+//
+// Tests for platform and host conditional settings.
+//
+
+import * as assert from 'assert';
+
+import { resolveConditionalSettings } from '../src/conditions';
+
+suite("Conditional Settings Tests", () => {
+    let host = {platform: 'win32', hostname: 'BUILD-07', username: 'Jo', env: {'TOOLCHAIN_HOME': 'C:\\tools'}};
+
+    test("Applies matching blocks in order", () => {
+        let settings = {
+            'editor.tabSize': 4,
+            'fetchUserEnv.conditionalSettings': [
+                {when: {platform: 'win32'}, settings: {'shell': 'cmd.exe', 'editor.tabSize': 2}},
+                {when: {platform: ['darwin', 'linux']}, settings: {'shell': '/bin/bash'}},
+                {when: {hostname: 'build-??', env: 'TOOLCHAIN_HOME'}, settings: {'shell': 'pwsh.exe'}},
+                {when: {username: 'jo', env: 'MISSING'}, settings: {'editor.tabSize': 8}}
+            ]
+        };
+        assert.deepEqual(resolveConditionalSettings(settings, host), {'editor.tabSize': 2, 'shell': 'pwsh.exe'});
+    });
+
+    test("Leaves files without conditional settings alone", () => {
+        let settings = {'editor.tabSize': 4};
+        assert.equal(resolveConditionalSettings(settings, host), settings);
+    });
+
+    test("Doesn't match usernames when the user is unknown", () => {
+        let settings = {'fetchUserEnv.conditionalSettings': [{when: {username: 'jo'}, settings: {'editor.tabSize': 8}}]};
+        assert.deepEqual(resolveConditionalSettings(settings, Object.assign({}, host, {username: null})), {});
+    });
+
+    test("Rejects invalid blocks", () => {
+        assert.throws(() => resolveConditionalSettings({'fetchUserEnv.conditionalSettings': {}}, host), /list/);
+        assert.throws(() => resolveConditionalSettings({'fetchUserEnv.conditionalSettings': [{settings: {}}]}, host), /when/);
+        assert.throws(() => resolveConditionalSettings({'fetchUserEnv.conditionalSettings': [{when: {arch: 'x64'}, settings: {}}]}, host), /arch/);
+        assert.throws(() => resolveConditionalSettings({'fetchUserEnv.conditionalSettings': [{when: {platform: 'linux', env: 1}, settings: {}}]}, host), /env/);
+    });
+});
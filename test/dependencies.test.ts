@@ -0,0 +1,57 @@
+//
+// Tests for resolving extension dependencies and extension packs.
+//
+
+import * as assert from 'assert';
+
+import { declaredDependencies, resolveDependencies, isBuiltinExtension } from '../src/dependencies';
+
+suite("Dependencies Tests", () => {
+
+    function ext(id: string, version: string, dependencies: string[] = []) {
+        return {id: id, version: version, dependencies: dependencies};
+    }
+
+    test("Reads extension dependencies and packs", () => {
+        assert.deepEqual(declaredDependencies({extensionDependencies: ['pub.core', 'vscode.git'], extensionPack: ['Pub.Core', 'pub.theme', 42]}),
+                         ['pub.core', 'vscode.git', 'pub.theme']);
+        assert.deepEqual(declaredDependencies({name: 'plain'}), []);
+        assert.ok(isBuiltinExtension('vscode.git'));
+        assert.ok(!isBuiltinExtension('ms-vscode.cpptools'));
+    });
+
+    test("Installs missing dependencies first", () => {
+        let tool = ext('pub.tool', '1.0.0', ['pub.core', 'pub.installed']);
+        let available = [ext('pub.core', '1.0.0'), ext('Pub.Core', '1.1.0', ['pub.base']), ext('pub.base', '0.9.0'), ext('pub.unused', '1.0.0')];
+        let plan = resolveDependencies([tool], available, id => id === 'pub.installed');
+
+        assert.deepEqual(plan.order.map(node => node.id + '@' + node.version), ['pub.base@0.9.0', 'Pub.Core@1.1.0', 'pub.tool@1.0.0']);
+        assert.deepEqual(plan.added.map(node => node.id), ['pub.base', 'Pub.Core']);
+        assert.deepEqual(plan.skipped, []);
+        assert.deepEqual(plan.unsatisfied, []);
+        assert.deepEqual(plan.cycles, []);
+    });
+
+    test("Reports unsatisfied dependencies and cycles", () => {
+        let requested = [ext('pub.a', '1.0.0', ['pub.b', 'pub.missing']), ext('pub.b', '1.0.0', ['pub.c'])];
+        let plan = resolveDependencies(requested, [ext('pub.c', '1.0.0', ['pub.a'])], () => false);
+
+        // Every extension in the cycle needs pub.a, which can't activate
+        assert.deepEqual(plan.order, []);
+        assert.deepEqual(plan.skipped.map(node => node.id), ['pub.c', 'pub.b', 'pub.a']);
+        assert.deepEqual(plan.added, []);
+        assert.deepEqual(plan.unsatisfied, [{id: 'pub.a', dependency: 'pub.missing'}]);
+        assert.deepEqual(plan.cycles, [['pub.a', 'pub.b', 'pub.c', 'pub.a']]);
+    });
+
+    test("Skips only the extensions needing an unsatisfied dependency", () => {
+        let requested = [ext('pub.app', '1.0.0', ['pub.lib']), ext('pub.theme', '1.0.0', ['pub.base'])];
+        let available = [ext('pub.lib', '1.0.0', ['pub.gone']), ext('pub.base', '1.0.0')];
+        let plan = resolveDependencies(requested, available, () => false);
+
+        assert.deepEqual(plan.order.map(node => node.id), ['pub.base', 'pub.theme']);
+        assert.deepEqual(plan.added.map(node => node.id), ['pub.base']);
+        assert.deepEqual(plan.skipped.map(node => node.id), ['pub.lib', 'pub.app']);
+        assert.deepEqual(plan.unsatisfied, [{id: 'pub.lib', dependency: 'pub.gone'}]);
+    });
+});
@@ -0,0 +1,44 @@
+//
+// Tests for the engine shared by the extension and the command line.
+//
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { scanExtensions } from '../src/engine';
+import { removePath } from '../src/remoteSource';
+
+suite("Engine Tests", () => {
+    let tempPath: string;
+
+    setup(() => {
+        tempPath = fs.mkdtempSync(path.join(os.tmpdir(), 'fetch-engine-'));
+    });
+
+    teardown(async () => {
+        await removePath(tempPath);
+    });
+
+    function writePackage(folder: string, name: string, version: string) {
+        fs.mkdirSync(path.join(tempPath, folder));
+        fs.writeFileSync(path.join(tempPath, folder, 'package.json'), JSON.stringify({publisher: 'pub', name: name, version: version}));
+    }
+
+    test("Finds the newest version of each installed extension", () => {
+        writePackage('pub.a-1.2.0', 'a', '1.2.0');
+        writePackage('pub.a-1.10.0', 'a', '1.10.0');
+        writePackage('pub.b-2.0.0', 'b', '2.0.0');
+        writePackage('pub.c-1.0.0', 'c', '1.0.0');
+        writePackage('.fetch-staging', 'd', '1.0.0');
+        fs.writeFileSync(path.join(tempPath, '.obsolete'), JSON.stringify({'pub.c-1.0.0': true}));
+
+        let found = scanExtensions(tempPath).map(ext => ext.id + '@' + ext.version).sort();
+        assert.deepEqual(found, ['pub.a@1.10.0', 'pub.b@2.0.0']);
+    });
+
+    test("Finds nothing in a missing folder", () => {
+        assert.deepEqual(scanExtensions(path.join(tempPath, 'missing')), []);
+    });
+});
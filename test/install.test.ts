@@ -0,0 +1,89 @@
+//
+// Tests for staged installs and bounded parallel work.
+//
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { runLimited, installStaged, verifyExtensionFolder } from '../src/install';
+import { removePath } from '../src/remoteSource';
+
+suite("Install Tests", () => {
+    let tempPath: string;
+
+    setup(() => {
+        tempPath = fs.mkdtempSync(path.join(os.tmpdir(), 'fetch-install-'));
+    });
+
+    teardown(async () => {
+        await removePath(tempPath);
+    });
+
+    function writePackage(dirPath: string, version: string) {
+        fs.mkdirSync(dirPath);
+        fs.writeFileSync(path.join(dirPath, 'package.json'), JSON.stringify({publisher: 'pub', name: 'ext', version: version}));
+    }
+
+    test("Runs at most the limit at a time and reports every result", async () => {
+        let running = 0;
+        let maxRunning = 0;
+        let results = await runLimited([1, 2, 3, 4, 5], 2, async item => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            running--;
+            if (item === 3) {
+                throw new Error('boom');
+            }
+        });
+
+        assert.equal(maxRunning, 2);
+        assert.deepEqual(results.map(result => result.status), ['succeeded', 'succeeded', 'failed', 'succeeded', 'succeeded']);
+        assert.equal(results[2].error.message, 'boom');
+    });
+
+    test("Reports items not started once cancelled", async () => {
+        let started: number[] = [];
+        let results = await runLimited([1, 2, 3], 1, async item => {
+            started.push(item);
+        }, () => started.length >= 1);
+
+        assert.deepEqual(started, [1]);
+        assert.deepEqual(results.map(result => result.status), ['succeeded', 'cancelled', 'cancelled']);
+    });
+
+    test("Renames a verified staging folder into place", async () => {
+        let dstPath = path.join(tempPath, 'pub.ext-1.0.0');
+        await installStaged(dstPath, async stagingPath => writePackage(stagingPath, '1.0.0'),
+                            stagingPath => verifyExtensionFolder(stagingPath, 'Pub.Ext', '1.0.0'));
+
+        assert.equal(JSON.parse(fs.readFileSync(path.join(dstPath, 'package.json'), 'utf8')).version, '1.0.0');
+        assert.deepEqual(fs.readdirSync(tempPath), ['pub.ext-1.0.0']);
+    });
+
+    test("Leaves nothing behind when a copy fails", async () => {
+        let dstPath = path.join(tempPath, 'pub.ext-1.0.0');
+        let failed = false;
+
+        try {
+            await installStaged(dstPath, async stagingPath => {
+                writePackage(stagingPath, '1.0.0');
+                throw new Error('connection dropped');
+            }, () => {});
+        }
+        catch (err) {
+            failed = true;
+        }
+
+        assert.equal(failed, true);
+        assert.deepEqual(fs.readdirSync(tempPath), []);
+    });
+
+    test("Rejects the wrong extension", () => {
+        writePackage(path.join(tempPath, 'staged'), '0.9.0');
+        assert.throws(() => verifyExtensionFolder(path.join(tempPath, 'staged'), 'pub.ext', '1.0.0'), /0\.9\.0/);
+        assert.throws(() => verifyExtensionFolder(tempPath, 'pub.ext', '1.0.0'), /package\.json/);
+    });
+});
@@ -0,0 +1,31 @@
+//
+// Tests for editing JSON documents with comments.
+//
+
+import * as assert from 'assert';
+
+import { editProperties } from '../src/jsonEdit';
+
+suite("JSON Edit Tests", () => {
+
+    test("Replaces a property and keeps everything else", () => {
+        let text = '{\n    // Editor\n    "editor.tabSize": 2,\n\n    /* Files */\n    "files.eol": "\\n"\n}\n';
+        assert.equal(editProperties(text, {'editor.tabSize': 4}),
+                     '{\n    // Editor\n    "editor.tabSize": 4,\n\n    /* Files */\n    "files.eol": "\\n"\n}\n');
+    });
+
+    test("Inserts a property using the document indentation", () => {
+        let text = '{\n\t// Editor\n\t"editor.tabSize": 2\n}';
+        assert.equal(editProperties(text, {'files.exclude': {'out': true}}),
+                     '{\n\t// Editor\n\t"editor.tabSize": 2,\n\t"files.exclude": {\n\t\t"out": true\n\t}\n}');
+    });
+
+    test("Removes a property and keeps the comments of others", () => {
+        let text = '{\n  // Keep me\n  "a": 1,\n  "b": 2\n}';
+        assert.equal(editProperties(text, {}, ['b']), '{\n  // Keep me\n  "a": 1\n}');
+    });
+
+    test("Creates a document when there is none", () => {
+        assert.deepEqual(JSON.parse(editProperties('', {'a': 1})), {'a': 1});
+    });
+});
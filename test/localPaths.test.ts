@@ -0,0 +1,53 @@
+//
+// Tests for locating the local settings and extensions.
+//
+
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { productInfo, resolveLocalPaths, LocalPathHints } from '../src/localPaths';
+
+suite("Local Paths Tests", () => {
+    let home = path.join(path.sep, 'home', 'jo');
+
+    function hints(extra: {}): LocalPathHints {
+        return Object.assign({platform: 'linux', homeDir: home, env: {}, argv: [], product: {nameShort: 'Code', dataFolderName: '.vscode'}}, extra);
+    }
+
+    test("Guesses the product from the application name", () => {
+        assert.deepEqual(productInfo('Visual Studio Code - Insiders', path.join(home, 'missing')), {nameShort: 'Code - Insiders', dataFolderName: '.vscode-insiders'});
+        assert.deepEqual(productInfo('VSCodium', path.join(home, 'missing')), {nameShort: 'VSCodium', dataFolderName: '.vscode-oss'});
+    });
+
+    test("Uses the product folders by default", () => {
+        let paths = resolveLocalPaths(hints({product: {nameShort: 'Code - Insiders', dataFolderName: '.vscode-insiders'}}));
+        assert.equal(paths.settingsPath, path.join(home, '.config', 'Code - Insiders', 'User'));
+        assert.equal(paths.extensionPath, path.join(home, '.vscode-insiders', 'extensions'));
+    });
+
+    test("Follows the install location of the extension", () => {
+        let userPath = path.join(home, 'data', 'User');
+        let paths = resolveLocalPaths(hints({
+            extensionId: 'pub.fetch-user-environment',
+            extensionPath: path.join(home, 'exts', 'pub.fetch-user-environment-1.2.0'),
+            globalStoragePath: path.join(userPath, 'globalStorage', 'pub.fetch-user-environment')
+        }));
+        assert.deepEqual(paths, {settingsPath: userPath, extensionPath: path.join(home, 'exts')});
+
+        // Not installed while under development
+        paths = resolveLocalPaths(hints({extensionId: 'pub.fetch-user-environment', extensionPath: path.join(home, 'src', 'fetch')}));
+        assert.equal(paths.extensionPath, path.join(home, '.vscode', 'extensions'));
+    });
+
+    test("Prefers overrides, the command line and portable mode", () => {
+        let portable = path.join(home, 'portable');
+        let paths = resolveLocalPaths(hints({env: {'VSCODE_PORTABLE': portable}}));
+        assert.deepEqual(paths, {settingsPath: path.join(portable, 'user-data', 'User'), extensionPath: path.join(portable, 'extensions')});
+
+        paths = resolveLocalPaths(hints({env: {'VSCODE_PORTABLE': portable}, argv: ['--user-data-dir', path.join(home, 'data'), '--extensions-dir=' + path.join(home, 'exts')]}));
+        assert.deepEqual(paths, {settingsPath: path.join(home, 'data', 'User'), extensionPath: path.join(home, 'exts')});
+
+        paths = resolveLocalPaths(hints({argv: ['--user-data-dir', path.join(home, 'data')], settingsPathOverride: path.join(home, 'mine')}));
+        assert.equal(paths.settingsPath, path.join(home, 'mine'));
+    });
+});
@@ -0,0 +1,93 @@
+//
+// Tests for the environment manifest.
+//
+
+import * as assert from 'assert';
+
+import { parseManifest, bestCandidate, findBlockedExtension, pinnedVersion } from '../src/manifest';
+
+suite("Manifest Tests", () => {
+
+    test("Applies defaults for missing fields", () => {
+        let manifest = parseManifest('{}');
+        assert.deepEqual(manifest, {
+            extensions: {},
+            pinnedExtensions: {},
+            blockedExtensions: [],
+            settings: ['settings.json'],
+            removedSettings: [],
+            renamedSettings: {},
+            defaultSettings: null,
+            mergeStrategies: {}
+        });
+    });
+
+    test("Parses extensions and settings files", () => {
+        let manifest = parseManifest(`{
+            // Team environment
+            "extensions": {"pub.lint": "^1.4.0", "pub.build": ">=2.0.0 <3"},
+            "settings": "team.json",
+            "defaultSettings": "defaults.json"
+        }`);
+        assert.deepEqual(manifest.extensions, {'pub.lint': '^1.4.0', 'pub.build': '>=2.0.0 <3'});
+        assert.deepEqual(manifest.settings, ['team.json']);
+        assert.equal(manifest.defaultSettings, 'defaults.json');
+    });
+
+    test("Rejects invalid content", () => {
+        assert.throws(() => parseManifest('{"extensions": {"pub.lint": "latest-ish"}}'), /pub\.lint/);
+        assert.throws(() => parseManifest('{"settings": []}'), /settings/);
+        assert.throws(() => parseManifest('[]'), /object/);
+        assert.throws(() => parseManifest('{"extensions": '));
+    });
+
+    test("Parses pinned extensions", () => {
+        let manifest = parseManifest('{"pinnedExtensions": {"Pub.Lint": "1.4.2", "pub.build": "2.0.0-beta.3"}}');
+        assert.equal(pinnedVersion(manifest, 'pub.lint'), '1.4.2');
+        assert.equal(pinnedVersion(manifest, 'pub.build'), '2.0.0-beta.3');
+        assert.equal(pinnedVersion(manifest, 'pub.other'), undefined);
+        assert.throws(() => parseManifest('{"pinnedExtensions": {"pub.lint": "^1.4.0"}}'), /exact version/);
+    });
+
+    test("Picks the highest version satisfying the range", () => {
+        let candidates = [
+            {id: 'pub.lint', version: '1.3.0'},
+            {id: 'pub.lint', version: '1.4.2'},
+            {id: 'Pub.Lint', version: '1.5.0'},
+            {id: 'pub.lint', version: '2.0.0'},
+            {id: 'pub.other', version: '1.9.0'}
+        ];
+        assert.equal(bestCandidate(candidates, 'pub.lint', '^1.4.0').version, '1.5.0');
+        assert.equal(bestCandidate(candidates, 'pub.lint', '>=2.0.0 <3').version, '2.0.0');
+        assert.equal(bestCandidate(candidates, 'pub.lint', '^3.0.0'), null);
+    });
+
+    test("Parses and matches blocked extensions", () => {
+        let manifest = parseManifest(`{
+            "blockedExtensions": [
+                {"id": "vendor.linter", "reason": "Conflicts with our linters", "policy": "uninstall"},
+                {"id": "team.old-tool", "versions": "<2.0.0", "reason": "Renamed to team.new-tool"}
+            ]
+        }`);
+        let blocked = manifest.blockedExtensions;
+        assert.equal(blocked[1].policy, 'warn');
+        assert.equal(findBlockedExtension(blocked, 'Vendor.Linter', '9.9.9').reason, 'Conflicts with our linters');
+        assert.equal(findBlockedExtension(blocked, 'team.old-tool', '1.5.0').reason, 'Renamed to team.new-tool');
+        assert.equal(findBlockedExtension(blocked, 'team.old-tool', '2.0.0'), null);
+        assert.equal(findBlockedExtension(blocked, 'team.new-tool', '1.0.0'), null);
+        assert.throws(() => parseManifest('{"blockedExtensions": [{"id": "x.y", "policy": "delete"}]}'), /policy/);
+    });
+
+    test("Parses removed and renamed settings", () => {
+        let manifest = parseManifest('{"removedSettings": ["foo.legacy"], "renamedSettings": {"foo.lintOnSave": "foo.lint.onSave"}}');
+        assert.deepEqual(manifest.removedSettings, ['foo.legacy']);
+        assert.deepEqual(manifest.renamedSettings, {'foo.lintOnSave': 'foo.lint.onSave'});
+        assert.throws(() => parseManifest('{"renamedSettings": {"foo.lintOnSave": 1}}'), /foo\.lintOnSave/);
+    });
+
+    test("Parses merge strategies", () => {
+        let manifest = parseManifest('{"mergeStrategies": {"files.exclude": "deep-merge", "cSpell.*": "union"}}');
+        assert.deepEqual(manifest.mergeStrategies, {'files.exclude': 'deep-merge', 'cSpell.*': 'union'});
+        assert.throws(() => parseManifest('{"mergeStrategies": {"files.exclude": "merge"}}'), /files\.exclude/);
+    });
+});
@@ -0,0 +1,38 @@
+//
+// Tests for the merge strategies of shared settings.
+//
+
+import * as assert from 'assert';
+
+import { MergeStrategy, findStrategy, mergeValue } from '../src/mergeStrategy';
+
+suite("Merge Strategy Tests", () => {
+
+    test("Finds the strategy of a key", () => {
+        let strategies: {[key: string]: MergeStrategy} = {'cSpell.*': 'union', 'cSpell.words': 'append', 'files.exclude': 'deep-merge'};
+        assert.equal(findStrategy(strategies, 'cSpell.words'), 'append');
+        assert.equal(findStrategy(strategies, 'cSpell.ignorePaths'), 'union');
+        assert.equal(findStrategy(strategies, 'files.exclude'), 'deep-merge');
+        assert.equal(findStrategy(strategies, 'files.excludeMore'), 'replace');
+    });
+
+    test("Merges objects", () => {
+        let local = {'**/.git': true, '**/build': true, 'nested': {'a': 1, 'b': 1}};
+        let remote = {'**/.git': false, 'nested': {'b': 2}};
+        assert.deepEqual(mergeValue('deep-merge', local, remote), {'**/.git': false, '**/build': true, 'nested': {'a': 1, 'b': 2}});
+        assert.deepEqual(mergeValue('enforce-keys', local, remote), {'**/.git': false, '**/build': true, 'nested': {'b': 2}});
+        assert.deepEqual(mergeValue('replace', local, remote), remote);
+    });
+
+    test("Merges arrays", () => {
+        let local = ['mine', 'team', 'mine'];
+        let remote = ['team', 'shared'];
+        assert.deepEqual(mergeValue('union', local, remote), ['mine', 'team', 'shared']);
+        assert.deepEqual(mergeValue('append', local, remote), ['mine', 'team', 'mine', 'shared']);
+    });
+
+    test("Replaces missing values and values of a different type", () => {
+        assert.deepEqual(mergeValue('union', undefined, ['a']), ['a']);
+        assert.deepEqual(mergeValue('deep-merge', ['a'], {'a': 1}), {'a': 1});
+    });
+});
@@ -0,0 +1,55 @@
+//
+// Tests for merging keybindings, snippets and tasks.
+//
+
+import * as assert from 'assert';
+
+import { compareKeybindings, compareSnippets, compareTasks } from '../src/profileFiles';
+import { editValue } from '../src/jsonEdit';
+
+suite("Profile Files Tests", () => {
+
+    test("Appends missing keybindings and updates changed arguments", () => {
+        let local = [
+            {key: 'ctrl+k', command: 'mine'},
+            {key: 'Ctrl+R', command: 'run', when: 'editorFocus', args: {a: 1}}
+        ];
+        let remote = [
+            {key: 'ctrl+r', command: 'run', when: 'editorFocus', args: {a: 2}},
+            {key: 'f5', command: 'build'},
+            {key: 'ctrl+k', command: 'mine'}
+        ];
+        let changes = compareKeybindings(local, remote);
+        assert.deepEqual(changes.map(change => [change.kind, change.jsonPath]), [['update', [1]], ['add', [-1]]]);
+
+        let text = '[\n    // Mine\n    {"key": "ctrl+k", "command": "mine"},\n    {"key": "Ctrl+R", "command": "run", "when": "editorFocus", "args": {"a": 1}}\n]';
+        for (let change of changes) {
+            text = editValue(text, change.jsonPath, change.value);
+        }
+        assert.ok(text.indexOf('// Mine') >= 0);
+        assert.deepEqual(JSON.parse(text.replace('// Mine', '')), [local[0], remote[0], remote[1]]);
+    });
+
+    test("Copies files that don't exist locally", () => {
+        let remote = [{key: 'f5', command: 'build'}];
+        let changes = compareKeybindings(null, remote);
+        assert.equal(changes.length, 1);
+        assert.deepEqual(JSON.parse(editValue('', changes[0].jsonPath, changes[0].value)), remote);
+    });
+
+    test("Adds and updates snippets by name", () => {
+        let local = {'For loop': {prefix: 'for', body: ['for']}, 'Mine': {prefix: 'm', body: ['m']}};
+        let remote = {'For loop': {prefix: 'for', body: ['for (;;)']}, 'Log': {prefix: 'log', body: ['log']}};
+        let changes = compareSnippets('snippets/c.json', local, remote);
+        assert.deepEqual(changes.map(change => [change.kind, change.label]), [['update', 'snippets/c.json: For loop'], ['add', 'snippets/c.json: Log']]);
+    });
+
+    test("Merges tasks by label", () => {
+        let local = {version: '2.0.0', tasks: [{label: 'build', command: 'make'}, {label: 'mine', command: 'x'}]};
+        let remote = {version: '2.0.0', tasks: [{label: 'build', command: 'make all'}, {label: 'test', command: 'make test'}]};
+        let changes = compareTasks(local, remote);
+        assert.deepEqual(changes.map(change => [change.kind, change.jsonPath]), [['update', ['tasks', 0]], ['add', ['tasks', -1]]]);
+        assert.deepEqual(compareTasks(remote, remote), []);
+        assert.deepEqual(compareTasks({version: '2.0.0'}, remote)[0].jsonPath, ['tasks']);
+    });
+});
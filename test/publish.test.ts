@@ -0,0 +1,62 @@
+//
+// Tests for comparing the local environment with the shared location when publishing.
+//
+
+import * as assert from 'assert';
+
+import { DEFAULT_PUBLISH_EXCLUDES, diffSettings, diffExtensions, expiredVersions, isExcludedSetting, isExcludedExtension, templatedSettings } from '../src/publish';
+
+suite("Publish Tests", () => {
+
+    test("Lists added, changed and removed settings", () => {
+        let items = diffSettings({'editor.tabSize': 4, 'files.exclude': {'**/.git': true}, 'new.key': 'a'},
+                                 {'editor.tabSize': 2, 'files.exclude': {'**/.git': true}, 'old.key': 'b'});
+
+        assert.deepEqual(items.map(item => item.kind + ' ' + item.key), ['change editor.tabSize', 'add new.key', 'remove old.key']);
+        assert.equal(items[0].value, 4);
+    });
+
+    test("Compares merged values and flags templated settings", () => {
+        let remote = {'java.home': '${env:JAVA_HOME}', 'files.exclude': {'**/.git': true}, 'editor.rulers': [80],
+                      'fetchUserEnv.conditionalSettings': [{when: {platform: 'win32'}, settings: {'terminal.font': 'Consolas'}}]};
+        let templated = templatedSettings(remote);
+        assert.deepEqual(templated, ['java.home', 'terminal.font']);
+
+        // Resolved as fetching does, with the local value of a merged setting holding extra items
+        let resolved = {'java.home': '/opt/jdk', 'files.exclude': {'**/.git': true}, 'editor.rulers': [80]};
+        let local = {'java.home': '/usr/lib/jvm', 'files.exclude': {'**/.git': true, 'out': true}, 'editor.rulers': [80, 120], 'terminal.font': 'Menlo'};
+        let items = diffSettings(local, resolved, {'files.*': 'deep-merge'}, templated);
+
+        assert.deepEqual(items.map(item => item.kind + ' ' + item.key + (item.templated ? ' (templated)' : '')),
+                         ['change java.home (templated)', 'change editor.rulers', 'add terminal.font (templated)']);
+    });
+
+    test("Compares with the newest published version", () => {
+        let remote = [{id: 'pub.a', version: '1.0.0', name: 'pub.a-1.0.0'},
+                      {id: 'pub.a', version: '1.2.0', name: 'pub.a-1.2.0'},
+                      {id: 'pub.b', version: '2.0.0', name: 'pub.b-2.0.0'},
+                      {id: 'pub.c', version: '0.1.0', name: 'pub.c-0.1.0'}];
+        let items = diffExtensions([{id: 'Pub.A', version: '1.2.0'}, {id: 'pub.b', version: '2.1.0'}, {id: 'pub.d', version: '1.0.0'}], remote);
+
+        assert.deepEqual(items.map(item => item.kind + ' ' + item.key), ['change pub.b', 'add pub.d', 'remove pub.c']);
+        assert.equal(items[0].remoteVersion, '2.0.0');
+    });
+
+    test("Keeps the newest version and the previous versions up to the retention", () => {
+        let versions = ['1.0.0', '1.10.0', '1.2.0', '1.9.0'].map(version => ({id: 'pub.a', version: version, name: 'pub.a-' + version}));
+
+        assert.deepEqual(expiredVersions(versions, 2).map(ext => ext.version), ['1.0.0']);
+        assert.deepEqual(expiredVersions(versions, 0).map(ext => ext.version), ['1.9.0', '1.2.0', '1.0.0']);
+    });
+
+    test("Excludes machine-specific settings and matching extensions", () => {
+        assert.equal(isExcludedSetting('window.zoomLevel', DEFAULT_PUBLISH_EXCLUDES), true);
+        assert.equal(isExcludedSetting('python.pythonPath', DEFAULT_PUBLISH_EXCLUDES), true);
+        assert.equal(isExcludedSetting('terminal.integrated.shell.windows', DEFAULT_PUBLISH_EXCLUDES), true);
+        assert.equal(isExcludedSetting('editor.tabSize', DEFAULT_PUBLISH_EXCLUDES), false);
+        assert.equal(isExcludedSetting('editor.minimap.enabled', ['editor.minimap.*']), true);
+
+        assert.equal(isExcludedExtension('MyCompany.Internal-Tools', ['mycompany.internal-*']), true);
+        assert.equal(isExcludedExtension('mycompany.public', ['mycompany.internal-*']), false);
+    });
+});
@@ -0,0 +1,213 @@
+//
+// Tests for the remote source providers, the HTTP(S) provider is tested against a local static server.
+//
+
+import * as assert from 'assert';
+import * as child_process from 'child_process';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+
+import { createRemoteSource, removePath } from '../src/remoteSource';
+
+suite("Remote Source Tests", () => {
+    let remotePath: string;
+    let localPath: string;
+    let server: http.Server;
+    let serverUrl: string;
+
+    suiteSetup(async () => {
+        remotePath = fs.mkdtempSync(path.join(os.tmpdir(), 'fetch-remote-'));
+        localPath = fs.mkdtempSync(path.join(os.tmpdir(), 'fetch-local-'));
+
+        // Populate the remote location through the file system provider
+        let source = createRemoteSource(remotePath);
+        await source.writeFile('settings.json', '{"editor.tabSize": 4}');
+        await source.writeFile('pub.ext-1.0.0/package.json', '{"publisher": "pub", "name": "ext", "version": "1.0.0"}');
+        await source.writeFile('pub.ext-1.0.0/out/extension.js', 'exports.activate = function () {};');
+        await source.updateIndex();
+
+        // Static server for the remote location
+        server = http.createServer((req, res) => {
+            let filePath = path.join(remotePath, decodeURIComponent(req.url));
+            if (fs.existsSync(filePath) && fs.statSync(filePath).isFile()) {
+                res.writeHead(200);
+                res.end(fs.readFileSync(filePath));
+            }
+            else {
+                res.writeHead(404);
+                res.end();
+            }
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+        serverUrl = 'http://127.0.0.1:' + server.address().port;
+    });
+
+    suiteTeardown(async () => {
+        server.close();
+        await removePath(remotePath);
+        await removePath(localPath);
+    });
+
+    test("File system index lists every file", () => {
+        let index = JSON.parse(fs.readFileSync(path.join(remotePath, 'index.json'), 'utf8'));
+        assert.deepEqual(index.files.sort(), ['pub.ext-1.0.0/out/extension.js', 'pub.ext-1.0.0/package.json', 'settings.json']);
+    });
+
+    test("HTTP provider browses the served index", async () => {
+        let source = createRemoteSource(serverUrl);
+
+        assert.equal(source.writable, false);
+        assert.equal(await source.exists(''), true);
+        assert.equal(await source.exists('settings.json'), true);
+        assert.equal(await source.exists('pub.ext-1.0.0/package.json'), true);
+        assert.equal(await source.exists('missing.json'), false);
+
+        let entries = await source.list('');
+        assert.deepEqual(entries.filter(entry => entry.isDirectory).map(entry => entry.name), ['pub.ext-1.0.0']);
+        assert.equal((await source.readFile('settings.json')).toString('utf8'), '{"editor.tabSize": 4}');
+    });
+
+    test("HTTP provider copies extension directories", async () => {
+        let source = createRemoteSource(serverUrl + '/');
+        let dstPath = path.join(localPath, 'pub.ext-1.0.0');
+
+        await source.copyDirectory('pub.ext-1.0.0', dstPath);
+        assert.equal(fs.readFileSync(path.join(dstPath, 'out', 'extension.js'), 'utf8'), 'exports.activate = function () {};');
+    });
+
+    test("HTTP provider never writes outside the destination", async () => {
+        let source = createRemoteSource(serverUrl + '/escape');
+        let dstPath = path.join(localPath, 'nested', 'pub.ext-1.0.0');
+
+        fs.mkdirSync(path.join(remotePath, 'escape'));
+        fs.writeFileSync(path.join(remotePath, 'escape', 'index.json'), JSON.stringify({files: ['ext/../../escaped.txt']}));
+        try {
+            let error: Error = null;
+            await source.copyDirectory('ext', dstPath).catch(err => error = err);
+            assert.ok(error && /outside the location/.test(error.message));
+            assert.equal(fs.existsSync(path.join(localPath, 'escaped.txt')), false);
+        }
+        finally {
+            await removePath(path.join(remotePath, 'escape'));
+        }
+    });
+
+    test("HTTP provider reports unreachable locations as missing", async () => {
+        let source = createRemoteSource(serverUrl + '/nowhere');
+        assert.equal(await source.exists(''), false);
+    });
+
+    test("Fingerprints change with the content", async () => {
+        let fileSource = createRemoteSource(remotePath);
+        let httpSource = createRemoteSource(serverUrl);
+        let settingsFile = path.join(remotePath, 'settings.json');
+        let before = [await fileSource.fingerprint(), await httpSource.fingerprint()];
+
+        assert.deepEqual([await fileSource.fingerprint(), await httpSource.fingerprint()], before);
+
+        fs.writeFileSync(settingsFile, '{"editor.tabSize": 2}');
+        try {
+            let after = [await fileSource.fingerprint(), await httpSource.fingerprint()];
+            assert.notEqual(after[0], before[0]);
+            assert.notEqual(after[1], before[1]);
+        }
+        finally {
+            fs.writeFileSync(settingsFile, '{"editor.tabSize": 4}');
+        }
+
+        // Snippets are only read when asked for
+        let snippetsFile = path.join(remotePath, 'snippets', 'js.json');
+        fs.mkdirSync(path.join(remotePath, 'snippets'));
+        fs.writeFileSync(snippetsFile, '{}');
+        try {
+            let withSnippets = await fileSource.fingerprint(['snippets']);
+            let withoutSnippets = await fileSource.fingerprint();
+            fs.writeFileSync(snippetsFile, '{"log": {}}');
+            assert.notEqual(await fileSource.fingerprint(['snippets']), withSnippets);
+            assert.equal(await fileSource.fingerprint(), withoutSnippets);
+        }
+        finally {
+            await removePath(path.join(remotePath, 'snippets'));
+        }
+
+        let failed = false;
+        await createRemoteSource(serverUrl + '/nowhere').fingerprint().catch(() => failed = true);
+        assert.equal(failed, true);
+    });
+});
+
+suite("Git Remote Source Tests", () => {
+    let tempPath: string;
+    let barePath: string;
+    let workPath: string;
+    let cachePath: string;
+
+    function git(args: string, cwd: string) {
+        return child_process.execSync('git ' + args, {cwd: cwd, stdio: 'pipe'}).toString().trim();
+    }
+
+    function commit(file: string, content: string, message: string) {
+        fs.writeFileSync(path.join(workPath, file), content);
+        git('add -A', workPath);
+        git('-c user.name=test -c user.email=test@example.com commit -q -m "' + message + '"', workPath);
+        git('push -q origin HEAD:main', workPath);
+        return git('rev-parse HEAD', workPath);
+    }
+
+    suiteSetup(() => {
+        tempPath = fs.mkdtempSync(path.join(os.tmpdir(), 'fetch-git-'));
+        barePath = path.join(tempPath, 'env.git');
+        workPath = path.join(tempPath, 'work');
+        cachePath = path.join(tempPath, 'cache');
+
+        git('init -q --bare "' + barePath + '"', tempPath);
+        git('symbolic-ref HEAD refs/heads/main', barePath);
+        git('clone -q "' + barePath + '" work', tempPath);
+        fs.mkdirSync(path.join(workPath, 'settings'));
+    });
+
+    suiteTeardown(async () => {
+        await removePath(tempPath);
+    });
+
+    test("Checks out the default branch and follows new commits", async () => {
+        let first = commit('settings/settings.json', '{"editor.tabSize": 2}', 'first');
+        let source = createRemoteSource('git+file://' + barePath + '#:settings', cachePath);
+
+        await source.refresh();
+        assert.equal(source.revision, first);
+        assert.equal(await source.exists('settings.json'), true);
+        assert.equal((await source.readFile('settings.json')).toString('utf8'), '{"editor.tabSize": 2}');
+
+        let second = commit('settings/settings.json', '{"editor.tabSize": 4}', 'second');
+        await source.refresh();
+        assert.equal(source.revision, second);
+        assert.equal((await source.readFile('settings.json')).toString('utf8'), '{"editor.tabSize": 4}');
+    });
+
+    test("Checks out a tag", async () => {
+        let tagged = commit('settings/settings.json', '{"editor.tabSize": 8}', 'tagged');
+        git('tag v1', workPath);
+        git('push -q origin v1', workPath);
+        commit('settings/settings.json', '{"editor.tabSize": 3}', 'later');
+
+        let source = createRemoteSource('git+file://' + barePath + '#v1:settings', cachePath);
+        await source.refresh();
+        assert.equal(source.revision, tagged);
+        assert.equal((await source.readFile('settings.json')).toString('utf8'), '{"editor.tabSize": 8}');
+        assert.equal(source.writable, false);
+    });
+
+    test("Requires a cache folder for the clones", () => {
+        assert.throws(() => createRemoteSource('git+file://' + barePath), /No cache folder/);
+    });
+
+    test("Reports unknown refs as missing", async () => {
+        let source = createRemoteSource('git+file://' + barePath + '#no-such-branch', cachePath);
+        await source.refresh();
+        assert.equal(source.revision, null);
+        assert.equal(await source.exists(''), false);
+    });
+});
@@ -0,0 +1,52 @@
+//
+// Tests for the environment report.
+//
+
+import * as assert from 'assert';
+
+import { EnvironmentReport, complianceStatus, reportToMarkdown, reportToJSON } from '../src/report';
+
+suite("Report Tests", () => {
+
+    function report(): EnvironmentReport {
+        return {generated: '2019-03-01T12:00:00.000Z', settings: [], extensions: [], unreachable: []};
+    }
+
+    test("Reports the compliance status", () => {
+        let target = report();
+        assert.equal(complianceStatus(target), 'compliant');
+
+        target.extensions.push({kind: 'missing', id: 'pub.ext', remoteVersion: '1.0.0'});
+        assert.equal(complianceStatus(target), 'drifted');
+
+        target.unreachable.push('Settings at "/share": the path does not exist');
+        assert.equal(complianceStatus(target), 'unreachable');
+    });
+
+    test("Lists local and remote values", () => {
+        let target = report();
+        target.settings.push({kind: 'update', key: 'editor.tabSize', local: 2, remote: 4, layer: 'team'},
+                             {kind: 'default', key: 'files.eol', remote: '\n'},
+                             {kind: 'rename', key: 'old.key', local: true, newKey: 'new.key'});
+        target.extensions.push({kind: 'outdated', id: 'pub.ext', localVersion: '1.0.0', remoteVersion: '1.1.0'},
+                               {kind: 'pinned', id: 'pub.tool', localVersion: '2.1.0', remoteVersion: '2.0.3'},
+                               {kind: 'blocked', id: 'bad.ext', localVersion: '0.1.0', reason: 'Leaks | data'},
+                               {kind: 'unsatisfied', id: 'pub.z', required: '^1.0.0', reason: 'not available at the remote path'});
+        let markdown = reportToMarkdown(target);
+
+        assert.ok(markdown.indexOf('the environment is **drifted**') >= 0);
+        assert.ok(markdown.indexOf('| `editor.tabSize` | `2` | `4` | team |') >= 0);
+        assert.ok(markdown.indexOf('| `files.eol` | _not set_ | `"\\n"` (default) |  |') >= 0);
+        assert.ok(markdown.indexOf('| `old.key` | `true` | Renamed to `new.key` |  |') >= 0);
+        assert.ok(markdown.indexOf('| `pub.ext` | 1.0.0 | 1.1.0 |') >= 0);
+        assert.ok(markdown.indexOf('| `pub.tool` | 2.1.0 | Pinned to 2.0.3 |') >= 0);
+        assert.ok(markdown.indexOf('| `bad.ext` | 0.1.0 | Blocked: Leaks \\| data |') >= 0);
+        assert.ok(markdown.indexOf('| `pub.z` | _not installed_ | Requires ^1.0.0, not available at the remote path |') >= 0);
+    });
+
+    test("Exports the status with the report", () => {
+        let json = JSON.parse(reportToJSON(report()));
+        assert.equal(json.status, 'compliant');
+        assert.deepEqual(json.settings, []);
+    });
+});
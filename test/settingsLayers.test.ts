@@ -0,0 +1,41 @@
+//
+// Tests for merging settings layers.
+//
+
+import * as assert from 'assert';
+
+import { parseLayers, mergeLayers } from '../src/settingsLayers';
+
+suite("Settings Layers Tests", () => {
+
+    test("Applies defaults and rejects invalid layers", () => {
+        assert.deepEqual(parseLayers(undefined), []);
+        assert.deepEqual(parseLayers([{name: 'org'}]), [{name: 'org', location: null, file: 'settings.json', mode: 'enforce'}]);
+        assert.throws(() => parseLayers({}), /list/);
+        assert.throws(() => parseLayers([{location: 'x'}]), /name/);
+        assert.throws(() => parseLayers([{name: 'team', mode: 'optional'}]), /team/);
+    });
+
+    test("Later layers take precedence", () => {
+        let merged = mergeLayers([
+            {name: 'org', mode: 'enforce', settings: {'a': 1, 'b': 1}},
+            {name: 'team', mode: 'enforce', settings: {'b': 2}},
+            {name: 'sub-team', mode: 'default', settings: {'c': 3}}
+        ]);
+        assert.deepEqual(merged, {
+            'a': {value: 1, layer: 'org', mode: 'enforce'},
+            'b': {value: 2, layer: 'team', mode: 'enforce'},
+            'c': {value: 3, layer: 'sub-team', mode: 'default'}
+        });
+    });
+
+    test("Defaults never override enforced values", () => {
+        let merged = mergeLayers([
+            {name: 'org defaults', mode: 'default', settings: {'a': 1}},
+            {name: 'org', mode: 'enforce', settings: {'a': 2, 'b': 2}},
+            {name: 'team defaults', mode: 'default', settings: {'a': 3, 'b': 3}}
+        ]);
+        assert.equal(merged['a'].layer, 'org');
+        assert.equal(merged['b'].value, 2);
+    });
+});
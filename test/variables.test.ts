@@ -0,0 +1,48 @@
+//
+// Tests for variable substitution in remote settings.
+//
+
+import * as assert from 'assert';
+
+import { substituteVariables, parseVariables } from '../src/variables';
+
+suite("Variables Tests", () => {
+    let context = {
+        env: {'JAVA_HOME': '/opt/jdk'},
+        userHome: '/home/jo',
+        platform: 'linux',
+        userSettingsPath: '/home/jo/.config/Code/User',
+        variables: {'buildRoot': '/build'}
+    };
+
+    test("Expands variables in nested values", () => {
+        let settings = {
+            'clang.executable': '${userHome}/tools/clang',
+            'java.home': '${env:JAVA_HOME}',
+            'build.dirs': ['${var:buildRoot}/${platform}', {'settings': '${userSettingsPath}'}],
+            'editor.tabSize': 4
+        };
+        assert.deepEqual(substituteVariables(settings, context), {
+            'clang.executable': '/home/jo/tools/clang',
+            'java.home': '/opt/jdk',
+            'build.dirs': ['/build/linux', {'settings': '/home/jo/.config/Code/User'}],
+            'editor.tabSize': 4
+        });
+    });
+
+    test("Keeps escaped and Visual Studio Code variables", () => {
+        let settings = {'a': '${workspaceFolder}/venv', 'b': '$${userHome}', 'c': '${config:editor.tabSize}'};
+        assert.deepEqual(substituteVariables(settings, context), {'a': '${workspaceFolder}/venv', 'b': '${userHome}', 'c': '${config:editor.tabSize}'});
+    });
+
+    test("Reports unresolved variables", () => {
+        assert.throws(() => substituteVariables({'java.home': '${env:MISSING}', 'b': ['${var:nope}', '${userhome}']}, context),
+                      /\$\{env:MISSING\} in "java\.home".*\$\{var:nope\}, \$\{userhome\} in "b"/);
+    });
+
+    test("Parses the variables file", () => {
+        assert.deepEqual(parseVariables({'tools': '${userHome}/tools'}, context), {'tools': '/home/jo/tools'});
+        assert.throws(() => parseVariables({'tools': 1}, context), /tools/);
+        assert.throws(() => parseVariables({'a': '${var:buildRoot}'}, context), /var:buildRoot/);
+    });
+});
@@ -0,0 +1,44 @@
+//
+// Tests for the extension version ordering and install decisions.
+//
+
+import * as assert from 'assert';
+
+import { compareVersions, decideVersion } from '../src/versions';
+
+suite("Versions Tests", () => {
+
+    test("Orders versions as Semantic Versioning 2.0", () => {
+        // Precedence example from the specification
+        let ordered = ['1.0.0-alpha', '1.0.0-alpha.1', '1.0.0-alpha.beta', '1.0.0-beta', '1.0.0-beta.2', '1.0.0-beta.11', '1.0.0-rc.1', '1.0.0', '1.2.0', '1.10.0'];
+        for (let index = 1; index < ordered.length; index++) {
+            assert.equal(compareVersions(ordered[index - 1], ordered[index]), -1, ordered[index - 1] + ' < ' + ordered[index]);
+            assert.equal(compareVersions(ordered[index], ordered[index - 1]), 1, ordered[index] + ' > ' + ordered[index - 1]);
+        }
+
+        // Build metadata doesn't count
+        assert.equal(compareVersions('1.0.0+20190101', '1.0.0+exp.sha.5114f85'), 0);
+        assert.equal(compareVersions('1.0.0-rc.1+build.1', '1.0.0'), -1);
+
+        // Anything that isn't a version sorts first
+        assert.equal(compareVersions('latest', '0.0.1'), -1);
+        assert.equal(compareVersions('0.0.1', 'latest'), 1);
+    });
+
+    test("Only upgrades unpinned extensions", () => {
+        assert.deepEqual(decideVersion('pub.lint', undefined, '1.2.0', false),
+                         {install: true, replace: false, explanation: 'Extension "pub.lint" is not installed, installing version 1.2.0'});
+        assert.equal(decideVersion('pub.lint', '1.2.0-beta.1', '1.2.0', false).install, true);
+        assert.deepEqual(decideVersion('pub.lint', '1.3.0', '1.2.0', false),
+                         {install: false, replace: false, explanation: 'Extension "pub.lint" installed version 1.3.0, remote version 1.2.0, keeping the newer installed version'});
+        assert.equal(decideVersion('pub.lint', '1.2.0', '1.2.0', false).install, false);
+    });
+
+    test("Installs exactly the pinned version", () => {
+        assert.deepEqual(decideVersion('pub.lint', '1.3.0', '1.2.0', true),
+                         {install: true, replace: true, explanation: 'Extension "pub.lint" installed version 1.3.0, remote version 1.2.0, downgrading to the pinned version'});
+        assert.deepEqual(decideVersion('pub.lint', '1.1.0', '1.2.0', true),
+                         {install: true, replace: false, explanation: 'Extension "pub.lint" installed version 1.1.0, remote version 1.2.0, upgrading to the pinned version'});
+        assert.equal(decideVersion('pub.lint', '1.2.0', '1.2.0', true).install, false);
+    });
+});
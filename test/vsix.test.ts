@@ -0,0 +1,70 @@
+//
+// Tests for reading, unpacking and creating VSIX packages.
+//
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { removePath } from '../src/remoteSource';
+import { readVsixManifest, extractVsix, createVsix, isVsixFile, vsixFilename } from '../src/vsix';
+
+const yazl = require('yazl');
+
+function zip(files: {}): Promise<Buffer> {
+    let zipFile = new yazl.ZipFile();
+    for (let name in files) {
+        zipFile.addBuffer(Buffer.from(files[name], 'utf8'), name);
+    }
+    zipFile.end();
+
+    return new Promise<Buffer>(resolve => {
+        let chunks: Buffer[] = [];
+        zipFile.outputStream.on('data', chunk => chunks.push(chunk));
+        zipFile.outputStream.on('end', () => resolve(Buffer.concat(chunks)));
+    });
+}
+
+suite("VSIX Tests", () => {
+    let tempPath: string;
+    let extPath: string;
+
+    suiteSetup(() => {
+        tempPath = fs.mkdtempSync(path.join(os.tmpdir(), 'fetch-vsix-'));
+        extPath = path.join(tempPath, 'pub.ext-1.2.3');
+        fs.mkdirSync(extPath);
+        fs.mkdirSync(path.join(extPath, 'out'));
+        fs.writeFileSync(path.join(extPath, 'package.json'), '{"publisher": "pub", "name": "ext", "version": "1.2.3"}');
+        fs.writeFileSync(path.join(extPath, 'out', 'extension.js'), 'exports.activate = function () {};');
+        fs.writeFileSync(path.join(extPath, '.vsixmanifest'), '<PackageManifest />');
+    });
+
+    suiteTeardown(async () => {
+        await removePath(tempPath);
+    });
+
+    test("Names VSIX files", () => {
+        assert.equal(vsixFilename('pub.ext', '1.2.3'), 'pub.ext-1.2.3.vsix');
+        assert.equal(isVsixFile('pub.ext-1.2.3.VSIX'), true);
+        assert.equal(isVsixFile('pub.ext-1.2.3'), false);
+    });
+
+    test("Packages and unpacks an extension", async () => {
+        let data = await createVsix(extPath);
+
+        let manifest = await readVsixManifest(data);
+        assert.equal(manifest.id, 'pub.ext');
+        assert.equal(manifest.version, '1.2.3');
+
+        let dstPath = path.join(tempPath, 'installed');
+        await extractVsix(data, dstPath);
+        assert.deepEqual(fs.readdirSync(dstPath).sort(), ['out', 'package.json']);
+        assert.equal(fs.readFileSync(path.join(dstPath, 'out', 'extension.js'), 'utf8'), 'exports.activate = function () {};');
+    });
+
+    test("Rejects packages without an extension manifest", async () => {
+        let data = await zip({'readme.md': 'nothing here'});
+        await readVsixManifest(data).then(() => assert.fail('Manifest read'), err => assert.ok(/package\.json/.test(err.message)));
+    });
+});
@@ -0,0 +1,42 @@
+//
+// Tests for the background change detection.
+//
+
+import * as assert from 'assert';
+
+import { ChangeWatcher } from '../src/watcher';
+
+suite("Watcher Tests", () => {
+
+    // Fingerprints returned by consecutive polls, null when the location is inaccessible
+    function watcher(fingerprints: string[], changes: string[]) {
+        let index = 0;
+        return new ChangeWatcher(async () => {
+            let fingerprint = fingerprints[Math.min(index++, fingerprints.length - 1)];
+            if (fingerprint === null) {
+                throw new Error('unreachable');
+            }
+            return fingerprint;
+        }, async () => {
+            changes.push(fingerprints[index - 1]);
+        });
+    }
+
+    async function pollAll(target: ChangeWatcher, count: number) {
+        for (let poll = 0; poll < count; poll++) {
+            await target.poll();
+        }
+    }
+
+    test("Reports a change once it has settled", async () => {
+        let changes: string[] = [];
+        await pollAll(watcher(['a', 'a', 'b', 'b', 'b', 'b'], changes), 6);
+        assert.deepEqual(changes, ['b']);
+    });
+
+    test("Ignores flapping and inaccessible locations", async () => {
+        let changes: string[] = [];
+        await pollAll(watcher(['a', 'b', 'a', null, 'a', 'b', null, 'a', 'c', 'c'], changes), 10);
+        assert.deepEqual(changes, ['c']);
+    });
+});